@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // Card fonts are read from disk at runtime (src/lib/cardFonts.ts)
+  outputFileTracingIncludes: {
+    '/api/card/[payload]': ['./src/assets/fonts/**'],
+  },
   // Exclude llmings folder from Next.js build
   webpack: (config) => {
     config.watchOptions = {
@@ -0,0 +1,254 @@
+// Judge calibration harness.
+//
+//   npm run calibrate -- [--runs N] [--persona ID] [--panel] [--out results.json]
+//   npm run calibrate -- --diff before.json after.json
+//
+// Scores every golden case through the same code path as /api/score, using
+// whichever judge provider the environment selects (OFF_THE_CHARTS_JUDGE=mock
+// runs fully offline), and reports pass/fail per case, mean absolute error,
+// the score distribution and run-to-run variance.
+
+import { readFileSync, writeFileSync } from "fs";
+import { getJudgeProvider } from "@/lib/judge";
+import { getPersona, isPersonaId } from "@/lib/personas";
+import { scoreGuess } from "@/lib/scoreGuess";
+import { GOLDEN_CASES, GoldenCase, ScoreBand } from "./calibration/goldenCases";
+
+type CaseResult = {
+  id: string;
+  expected: ScoreBand[];
+  // One score per adjective for each run; null when the judge failed that run
+  runs: Array<number[] | null>;
+};
+
+type CalibrationReport = {
+  provider: string;
+  model: string;
+  persona: string;
+  panel: boolean;
+  runCount: number;
+  createdAt: string;
+  cases: CaseResult[];
+};
+
+type Options = {
+  runs: number;
+  persona: string;
+  panel: boolean;
+  out?: string;
+  diff?: [string, string];
+};
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { runs: 1, persona: "roaster", panel: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--runs") {
+      options.runs = Math.max(1, Number(argv[++i]) || 1);
+    } else if (arg === "--persona") {
+      const persona = argv[++i];
+      if (!isPersonaId(persona)) throw new Error(`Unknown persona "${persona}"`);
+      options.persona = persona;
+    } else if (arg === "--panel") {
+      options.panel = true;
+    } else if (arg === "--out") {
+      options.out = argv[++i];
+    } else if (arg === "--diff") {
+      options.diff = [argv[++i], argv[++i]];
+    } else {
+      throw new Error(`Unknown argument "${arg}"`);
+    }
+  }
+  return options;
+}
+
+function inBand(score: number, [min, max]: ScoreBand): boolean {
+  return score >= min && score <= max;
+}
+
+function bandMidpoint([min, max]: ScoreBand): number {
+  return (min + max) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+}
+
+function completedRuns(result: CaseResult): number[][] {
+  return result.runs.filter((r): r is number[] => r !== null);
+}
+
+// Mean score per adjective across runs
+function meanScores(result: CaseResult, runs: number[][]): number[] {
+  return result.expected.map((_, i) => mean(runs.map((r) => r[i])));
+}
+
+// A case passes when the mean score for each adjective falls inside its band.
+function casePasses(result: CaseResult): boolean {
+  const runs = completedRuns(result);
+  if (runs.length === 0) return false;
+  return meanScores(result, runs).every((score, i) => inBand(score, result.expected[i]));
+}
+
+function caseError(result: CaseResult): number | null {
+  const runs = completedRuns(result);
+  if (runs.length === 0) return null;
+  return mean(
+    runs.flatMap((r) => result.expected.map((band, i) => Math.abs(r[i] - bandMidpoint(band)))),
+  );
+}
+
+async function runCase(goldenCase: GoldenCase, options: Options): Promise<CaseResult> {
+  const judge = getJudgeProvider();
+  const runs: CaseResult["runs"] = [];
+  for (let run = 0; run < options.runs; run++) {
+    try {
+      const { verdict } = await scoreGuess(judge, {
+        adjectives: goldenCase.adjectives,
+        noun: goldenCase.answer,
+        previousNouns: goldenCase.previousAnswers ?? [],
+        persona: getPersona(options.persona),
+        panel: options.panel,
+      });
+      runs.push(verdict.scores.slice(0, goldenCase.adjectives.length));
+    } catch (error) {
+      console.error(`  ${goldenCase.id} run ${run + 1} failed:`, error);
+      runs.push(null);
+    }
+  }
+  return { id: goldenCase.id, expected: goldenCase.expected, runs };
+}
+
+function printReport(report: CalibrationReport) {
+  console.log(
+    `\nJudge: ${report.provider} (${report.model}), persona ${report.persona}${report.panel ? ", panel" : ""}, ${report.runCount} run(s) per case\n`,
+  );
+
+  const histogram = new Array<number>(10).fill(0);
+  const errors: number[] = [];
+  const variances: number[] = [];
+  let passed = 0;
+
+  for (const result of report.cases) {
+    const runs = completedRuns(result);
+    const ok = casePasses(result);
+    if (ok) passed++;
+    runs.forEach((r) => r.forEach((score) => histogram[score - 1]++));
+    const error = caseError(result);
+    if (error !== null) errors.push(error);
+    const caseVariance = Math.max(...result.expected.map((_, i) => variance(runs.map((r) => r[i]))));
+    variances.push(caseVariance);
+
+    const means = meanScores(result, runs);
+    const columns = result.expected
+      .map(([min, max], i) => `${(runs.length ? means[i].toFixed(1) : "-").padStart(4)} [${min}-${max}]`)
+      .join("  ");
+    console.log(
+      `${ok ? "PASS" : "FAIL"}  ${result.id.padEnd(34)} ${columns}${
+        report.runCount > 1 ? `  var ${caseVariance.toFixed(2)}` : ""
+      }${runs.length < result.runs.length ? `  (${result.runs.length - runs.length} failed)` : ""}`,
+    );
+  }
+
+  console.log(`\nPassed: ${passed}/${report.cases.length}`);
+  console.log(`Mean absolute error vs. band midpoint: ${mean(errors).toFixed(2)}`);
+  if (report.runCount > 1) {
+    console.log(`Mean per-case variance across runs: ${mean(variances).toFixed(2)}`);
+  }
+
+  console.log("\nScore distribution:");
+  const peak = Math.max(1, ...histogram);
+  histogram.forEach((count, i) => {
+    const bar = "#".repeat(Math.round((count / peak) * 40));
+    console.log(`${String(i + 1).padStart(3)} | ${bar} ${count}`);
+  });
+}
+
+function printDiff(before: CalibrationReport, after: CalibrationReport) {
+  console.log(
+    `\nBefore: ${before.provider} (${before.model}), ${before.persona}, ${before.createdAt}`,
+  );
+  console.log(`After:  ${after.provider} (${after.model}), ${after.persona}, ${after.createdAt}\n`);
+
+  const beforeById = new Map(before.cases.map((c) => [c.id, c]));
+  let flipsToFail = 0;
+  let flipsToPass = 0;
+  const shifts: number[] = [];
+
+  for (const result of after.cases) {
+    const previous = beforeById.get(result.id);
+    if (!previous) {
+      console.log(`NEW   ${result.id}`);
+      continue;
+    }
+    const beforeRuns = completedRuns(previous);
+    const afterRuns = completedRuns(result);
+    if (beforeRuns.length === 0 || afterRuns.length === 0) continue;
+
+    const beforeMeans = meanScores(previous, beforeRuns);
+    const deltas = meanScores(result, afterRuns).map((score, i) => score - beforeMeans[i]);
+    shifts.push(...deltas);
+
+    const wasPassing = casePasses(previous);
+    const isPassing = casePasses(result);
+    const status =
+      wasPassing === isPassing ? "     " : isPassing ? "FIXED" : "BROKE";
+    if (wasPassing && !isPassing) flipsToFail++;
+    if (!wasPassing && isPassing) flipsToPass++;
+
+    if (status.trim() || deltas.some((d) => Math.abs(d) >= 0.5)) {
+      const fmt = (d: number) => `${d >= 0 ? "+" : ""}${d.toFixed(1)}`;
+      console.log(`${status} ${result.id.padEnd(34)} ${deltas.map(fmt).join("  ")}`);
+    }
+  }
+
+  const beforeErrors = before.cases.map(caseError).filter((e): e is number => e !== null);
+  const afterErrors = after.cases.map(caseError).filter((e): e is number => e !== null);
+  console.log(`\nNewly failing: ${flipsToFail}, newly passing: ${flipsToPass}`);
+  console.log(`Mean score shift: ${mean(shifts) >= 0 ? "+" : ""}${mean(shifts).toFixed(2)} (negative = harsher)`);
+  console.log(`MAE: ${mean(beforeErrors).toFixed(2)} -> ${mean(afterErrors).toFixed(2)}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.diff) {
+    const [beforePath, afterPath] = options.diff;
+    const load = (path: string) => JSON.parse(readFileSync(path, "utf8")) as CalibrationReport;
+    printDiff(load(beforePath), load(afterPath));
+    return;
+  }
+
+  const judge = getJudgeProvider();
+  const cases: CaseResult[] = [];
+  for (const goldenCase of GOLDEN_CASES) {
+    cases.push(await runCase(goldenCase, options));
+  }
+
+  const report: CalibrationReport = {
+    provider: judge.id,
+    model: judge.model,
+    persona: options.persona,
+    panel: options.panel,
+    runCount: options.runs,
+    createdAt: new Date().toISOString(),
+    cases,
+  };
+  printReport(report);
+
+  if (options.out) {
+    writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nSaved results to ${options.out}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
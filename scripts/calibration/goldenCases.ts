@@ -0,0 +1,60 @@
+// Golden answers for judge calibration. Each case lists the band (inclusive)
+// a well-calibrated judge should land in for each adjective. Bands are
+// deliberately wide; a case failing usually means the judge drifted, not that
+// it disagreed by a point.
+
+export type ScoreBand = [min: number, max: number];
+
+export type GoldenCase = {
+  id: string;
+  adjectives: string[]; // two to four, like a puzzle
+  answer: string;
+  previousAnswers?: string[];
+  expected: ScoreBand[]; // one per adjective
+};
+
+export const GOLDEN_CASES: GoldenCase[] = [
+  // Iconic answers for both adjectives
+  { id: "icy-ancient-glacier", adjectives: ["icy", "ancient"], answer: "glacier", expected: [[8, 10], [7, 10]] },
+  { id: "bouncy-colorful-bouncy-castle", adjectives: ["bouncy", "colorful"], answer: "inflatable castle", expected: [[8, 10], [7, 10]] },
+  { id: "spooky-ancient-mummy", adjectives: ["spooky", "ancient"], answer: "mummy", expected: [[7, 10], [8, 10]] },
+  { id: "fluffy-gigantic-cloud", adjectives: ["fluffy", "gigantic"], answer: "cumulonimbus cloud", expected: [[7, 10], [7, 10]] },
+  { id: "speedy-tiny-hummingbird", adjectives: ["speedy", "tiny"], answer: "hummingbird", expected: [[7, 10], [8, 10]] },
+
+  // Strong on one adjective, weak on the other
+  { id: "fiery-cozy-volcano", adjectives: ["fiery", "cozy"], answer: "volcano", expected: [[9, 10], [1, 3]] },
+  { id: "gentle-loud-thunder", adjectives: ["gentle", "loud"], answer: "thunderstorm", expected: [[1, 3], [9, 10]] },
+  { id: "sticky-ornate-honey", adjectives: ["sticky", "ornate"], answer: "honey", expected: [[9, 10], [1, 4]] },
+  { id: "massive-delicate-whale", adjectives: ["massive", "delicate"], answer: "blue whale", expected: [[9, 10], [1, 3]] },
+
+  // Middling answers
+  { id: "cozy-nostalgic-sweater", adjectives: ["cozy", "nostalgic"], answer: "sweater", expected: [[6, 9], [4, 7]] },
+  { id: "shiny-rusty-penny", adjectives: ["shiny", "rusty"], answer: "old penny", expected: [[4, 7], [4, 8]] },
+  { id: "chaotic-peaceful-beach", adjectives: ["chaotic", "peaceful"], answer: "public beach", expected: [[3, 7], [4, 8]] },
+
+  // Niche but apt answers should still score well
+  { id: "jagged-ancient-obsidian", adjectives: ["jagged", "ancient"], answer: "obsidian arrowhead", expected: [[8, 10], [8, 10]] },
+  { id: "slippery-villainous-eel", adjectives: ["slippery", "villainous"], answer: "moray eel", expected: [[8, 10], [3, 7]] },
+  { id: "melodic-haunting-theremin", adjectives: ["melodic", "haunting"], answer: "theremin", expected: [[5, 9], [8, 10]] },
+
+  // Weak answers
+  { id: "bouncy-ancient-spreadsheet", adjectives: ["bouncy", "ancient"], answer: "spreadsheet", expected: [[1, 2], [1, 3]] },
+  { id: "fiery-fluffy-stapler", adjectives: ["fiery", "fluffy"], answer: "stapler", expected: [[1, 2], [1, 2]] },
+  { id: "joyful-gritty-tax-return", adjectives: ["joyful", "gritty"], answer: "tax return", expected: [[1, 2], [1, 4]] },
+
+  // Progression bonus: a clearly better answer after weaker ones
+  {
+    id: "icy-vast-progression",
+    adjectives: ["icy", "vast"],
+    answer: "Antarctica",
+    previousAnswers: ["ice cube", "freezer"],
+    expected: [[9, 10], [9, 10]],
+  },
+  {
+    id: "tiny-loud-progression",
+    adjectives: ["tiny", "loud"],
+    answer: "chihuahua",
+    previousAnswers: ["mouse"],
+    expected: [[8, 10], [7, 10]],
+  },
+];
@@ -0,0 +1,123 @@
+// Validates the adjective pool in src/data/adjectives.ts: every entry needs
+// well-formed metadata, and synonym/antonym lists may only name other entries.
+// Metadata revisions are held to the same rules once their changes are in.
+// Pool and metadata revisions mustn't start on a day players had already been
+// served when the revision was added.
+// Runs before every `npm run build`.
+//
+//   npm run check:adjectives
+
+import {
+  ADJECTIVE_METADATA_REVISIONS,
+  ADJECTIVE_POOL_REVISIONS,
+  adjectiveMetadataRevisions,
+  ADJECTIVES,
+  AdjectiveEntry,
+} from "@/data/adjectives";
+import { isSchedulable } from "@/lib/pairRules";
+
+const PARTS_OF_SPEECH = ["adjective", "noun", "phrase"];
+const TIERS = [1, 2, 3];
+const TONES = ["positive", "negative", "neutral"];
+
+const words = new Set(ADJECTIVES.map((entry) => entry.word));
+
+function problemsFor(entry: AdjectiveEntry): string[] {
+  const problems: string[] = [];
+  const { word } = entry;
+
+  if (typeof word !== "string" || word.trim() === "" || word !== word.trim()) {
+    problems.push("word must be non-empty with no surrounding spaces");
+  }
+  if (!PARTS_OF_SPEECH.includes(entry.partOfSpeech)) problems.push(`unknown partOfSpeech "${entry.partOfSpeech}"`);
+  if (!TIERS.includes(entry.tier)) problems.push(`tier must be one of ${TIERS.join(", ")}`);
+  if (!TONES.includes(entry.tone)) problems.push(`unknown tone "${entry.tone}"`);
+  if (typeof entry.familyFriendly !== "boolean") problems.push("familyFriendly must be true or false");
+
+  (["synonyms", "antonyms"] as const).forEach((key) => {
+    const list = entry[key];
+    if (list === undefined) return;
+    if (!Array.isArray(list)) {
+      problems.push(`${key} must be a list`);
+      return;
+    }
+    list.forEach((other) => {
+      if (other === word) problems.push(`lists itself in ${key}`);
+      else if (!words.has(other)) problems.push(`${key} names "${other}", which isn't in the pool`);
+    });
+  });
+  entry.synonyms
+    ?.filter((other) => entry.antonyms?.includes(other))
+    .forEach((other) => problems.push(`"${other}" is listed as both a synonym and an antonym`));
+
+  return problems;
+}
+
+const failures = ADJECTIVES.flatMap((entry, index) =>
+  problemsFor(entry).map((problem) => `  #${index} ${entry.word}: ${problem}`),
+);
+
+const seen = new Map<string, number>();
+ADJECTIVES.forEach((entry, index) => {
+  const key = String(entry.word).toLowerCase();
+  const first = seen.get(key);
+  if (first !== undefined) failures.push(`  #${index} ${entry.word}: duplicate of #${first}`);
+  else seen.set(key, index);
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Players up to a day ahead of UTC are already on the next day's puzzle
+function newestDayServedOn(day: string): string {
+  return addDays(day, 1);
+}
+
+function revisionDateProblems(from: string, addedOn: string): string[] {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(addedOn) || Number.isNaN(Date.parse(addedOn))) {
+    return ["addedOn must be a YYYY-MM-DD date"];
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  if (addedOn > today) return [`addedOn ${addedOn} is in the future`];
+  const served = newestDayServedOn(addedOn);
+  return from <= served ? [`starts on or before ${served}, which players had already been served when it was added`] : [];
+}
+
+let previous = "";
+ADJECTIVE_POOL_REVISIONS.forEach(({ from, addedOn, size }) => {
+  if (from <= previous) failures.push(`  pool revision ${from}: dates must be in increasing order`);
+  revisionDateProblems(from, addedOn).forEach((problem) => failures.push(`  pool revision ${from}: ${problem}`));
+  if (size > ADJECTIVES.length) failures.push(`  pool revision ${from}: size ${size} is more than the pool holds`);
+  previous = from;
+});
+
+previous = "";
+ADJECTIVE_METADATA_REVISIONS.forEach(({ from, addedOn, changes }) => {
+  if (from <= previous) failures.push(`  metadata revision ${from}: dates must be in increasing order`);
+  revisionDateProblems(from, addedOn).forEach((problem) => failures.push(`  metadata revision ${from}: ${problem}`));
+  Object.keys(changes)
+    .filter((word) => !words.has(word))
+    .forEach((word) => failures.push(`  metadata revision ${from}: changes "${word}", which isn't in the pool`));
+  previous = from;
+});
+adjectiveMetadataRevisions().forEach(({ from, entries }) => {
+  entries.forEach((entry, index) => {
+    if (entry === ADJECTIVES[index]) return;
+    problemsFor(entry).forEach((problem) => failures.push(`  metadata revision ${from}, ${entry.word}: ${problem}`));
+  });
+});
+
+if (failures.length > 0) {
+  console.error(`Adjective pool has ${failures.length} problem(s):`);
+  failures.forEach((failure) => console.error(failure));
+  process.exit(1);
+}
+
+const unscheduled = ADJECTIVES.filter((entry) => !isSchedulable(entry)).map((entry) => entry.word);
+console.log(`Adjective pool OK (${ADJECTIVES.length} entries)`);
+if (unscheduled.length > 0) {
+  console.log(`Never scheduled as daily puzzles: ${unscheduled.join(", ")}`);
+}
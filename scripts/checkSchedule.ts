@@ -0,0 +1,73 @@
+// Validates the curated puzzle calendar in src/data/schedule.ts. Runs before
+// every `npm run build` so a typo'd adjective never reaches players.
+//
+//   npm run check:schedule
+
+import { ADJECTIVES, BASE_ADJECTIVES } from "@/data/adjectives";
+import { PUZZLE_SCHEDULE, ScheduledPuzzle } from "@/data/schedule";
+import { DEFAULT_GAME_RULES, reviveRules } from "@/lib/gameRules";
+import { areSynonyms } from "@/lib/pairRules";
+import { MAX_ADJECTIVES, MIN_ADJECTIVES } from "@/lib/puzzle";
+
+const MAX_CATEGORY_LENGTH = 40;
+
+function problemsFor(day: string, puzzle: ScheduledPuzzle): string[] {
+  const problems: string[] = [];
+
+  const date = new Date(`${day}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== day) {
+    problems.push("key is not a real YYYY-MM-DD date");
+  }
+
+  const { adjectives, categories } = puzzle;
+  if (!Array.isArray(adjectives) || adjectives.length < MIN_ADJECTIVES || adjectives.length > MAX_ADJECTIVES) {
+    problems.push(`needs ${MIN_ADJECTIVES} to ${MAX_ADJECTIVES} adjectives`);
+  } else {
+    adjectives
+      .filter((adjective) => !BASE_ADJECTIVES.includes(adjective))
+      .forEach((adjective) => problems.push(`"${adjective}" is not in BASE_ADJECTIVES`));
+    if (new Set(adjectives).size !== adjectives.length) problems.push("adjectives must be different");
+    const entries = adjectives.map((adjective) => ADJECTIVES.find((entry) => entry.word === adjective));
+    entries.forEach((a, i) =>
+      entries.slice(i + 1).forEach((b) => {
+        if (a && b && a !== b && areSynonyms(a, b)) {
+          problems.push(`"${a.word}" and "${b.word}" are near-synonyms`);
+        }
+      }),
+    );
+  }
+
+  const rules = { ...DEFAULT_GAME_RULES, ...puzzle.rules };
+  if (JSON.stringify(reviveRules(rules)) !== JSON.stringify(rules)) {
+    problems.push("rules are out of range");
+  }
+
+  if (categories !== undefined) {
+    if (!Array.isArray(categories) || categories.length !== rules.rounds) {
+      problems.push(`categories, if given, must list exactly ${rules.rounds} (one per round)`);
+    } else {
+      categories.forEach((category) => {
+        if (typeof category !== "string" || category.trim() === "" || category !== category.trim()) {
+          problems.push(`category "${category}" must be non-empty with no surrounding spaces`);
+        } else if (category.length > MAX_CATEGORY_LENGTH) {
+          problems.push(`category "${category}" is longer than ${MAX_CATEGORY_LENGTH} characters`);
+        }
+      });
+      if (new Set(categories).size !== categories.length) problems.push("categories must be different");
+    }
+  }
+
+  return problems;
+}
+
+const failures = Object.entries(PUZZLE_SCHEDULE).flatMap(([day, puzzle]) =>
+  problemsFor(day, puzzle).map((problem) => `  ${day}: ${problem}`),
+);
+
+if (failures.length > 0) {
+  console.error(`Puzzle schedule has ${failures.length} problem(s):`);
+  failures.forEach((failure) => console.error(failure));
+  process.exit(1);
+}
+
+console.log(`Puzzle schedule OK (${Object.keys(PUZZLE_SCHEDULE).length} dates)`);
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Game } from "@/components/Game";
+import { challengeGrade, decodeChallenge } from "@/lib/challenge";
+import { formatAdjectives } from "@/lib/puzzle";
+
+// Challenge links: play the sender's adjectives, then compare results.
+
+type ChallengePageProps = {
+  params: Promise<{ payload: string }>;
+};
+
+export async function generateMetadata({ params }: ChallengePageProps): Promise<Metadata> {
+  const { payload } = await params;
+  const challenge = decodeChallenge(payload);
+  if (!challenge) return { title: "Off the Charts" };
+
+  const title = `Off the Charts · Beat ${challengeGrade(challenge).label} on ${formatAdjectives(challenge.adjectives)}`;
+  return {
+    title,
+    description: "A friend challenged you to an Off the Charts game. Can you beat their score?",
+    openGraph: { title, type: "website" },
+  };
+}
+
+export default async function ChallengePage({ params }: ChallengePageProps) {
+  const { payload } = await params;
+  if (!decodeChallenge(payload)) notFound();
+  return <Game challenge={payload} />;
+}
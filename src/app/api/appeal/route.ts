@@ -1,92 +1,160 @@
 import { NextResponse } from "next/server";
-import { DEFAULT_MODEL_ID, getOpenAIClient } from "@/lib/openai";
+import { getJudgeProvider } from "@/lib/judge";
+import { JudgeFailure, streamVerdictResponse, wantsJudgeStream } from "@/lib/judgeStream";
+import { getPersona, JudgePersona } from "@/lib/personas";
+import { issueReceipt, refundReceipt, spendReceipt, verifyReceipt } from "@/lib/receipt";
+import {
+  appealVerdictSchema,
+  appealVerdictValidator,
+  countWord,
+  JudgeVerdictError,
+  numberedFields,
+  requestVerdict,
+} from "@/lib/verdict";
 
 export async function POST(req: Request) {
   try {
     const body = (await req.json()) as {
-      adjective1?: string;
-      adjective2?: string;
-      noun?: string;
-      originalScore1?: number;
-      originalScore2?: number;
+      receipt?: string;
       originalReasoning?: string;
       appealText?: string;
+      persona?: unknown;
     };
 
-    const { adjective1, adjective2, noun, originalScore1, originalScore2, originalReasoning, appealText } =
-      body;
+    const { originalReasoning, appealText } = body;
 
-    if (!adjective1 || !adjective2 || !noun || typeof originalScore1 !== "number" || typeof originalScore2 !== "number" || !appealText) {
+    if (!body.receipt || !appealText) {
       return NextResponse.json(
         { error: "Missing required appeal fields" },
         { status: 400 },
       );
     }
 
-    const openai = getOpenAIClient();
+    // The answer and original scores come from the signed receipt issued by
+    // /api/score, so they can't be edited before appealing.
+    const token = body.receipt;
+    const receipt = verifyReceipt(token);
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "Invalid or expired score receipt", code: "invalid_receipt" },
+        { status: 400 },
+      );
+    }
+    // The revised receipt says it's been appealed, but the original one still
+    // verifies, so the server remembers which receipts have been used.
+    if (receipt.appealed || !(await spendReceipt(token, receipt))) {
+      return NextResponse.json(
+        { error: "This verdict has already been appealed", code: "already_appealed" },
+        { status: 409 },
+      );
+    }
+
+    const { adjectives, noun, scores: originalScores } = receipt;
+
+    const judge = getJudgeProvider();
+    const persona = getPersona(body.persona);
 
     const prompt = buildAppealPrompt(
-      adjective1,
-      adjective2,
+      adjectives,
       noun,
-      originalScore1,
-      originalScore2,
+      originalScores,
       originalReasoning || "",
       appealText,
+      persona,
     );
 
-    const response = await openai.chat.completions.create({
-      model: DEFAULT_MODEL_ID,
-      messages: [
+    const judgeAppeal = async (onPartial?: (raw: string) => void) => {
+      const { newScores, reasonings, accepted } = await requestVerdict(
+        judge,
         {
-          role: "system",
-          content: prompt,
+          task: {
+            kind: "appeal",
+            adjectives,
+            noun,
+            originalScores,
+            appealText,
+            persona: persona.id,
+          },
+          prompt,
+          maxTokens: 140 * adjectives.length,
+          responseSchema: appealVerdictSchema(adjectives.length),
         },
-      ],
-      max_completion_tokens: 280,
-      reasoning_effort:
-        DEFAULT_MODEL_ID === "gpt-5.2-2025-12-11" ? ("none" as any) : "minimal",
-      verbosity: "low",
-    });
-
-    const raw = response.choices[0]?.message?.content?.trim() ?? "";
-    const { newScore1, newScore2, reasoning1, reasoning2, accepted } = parseAppealResponse(
-      raw,
-      originalScore1,
-      originalScore2,
-    );
+        appealVerdictValidator(originalScores),
+        onPartial,
+      ).catch(async (error) => {
+        // No ruling, so the appeal can be sent again
+        await refundReceipt(token).catch((refundError) => console.error("Couldn't refund receipt:", refundError));
+        throw error;
+      });
+
+      const revisedReceipt = issueReceipt({
+        puzzle: receipt.puzzle,
+        adjectives,
+        noun,
+        scores: newScores,
+        appealed: true,
+      });
 
-    return NextResponse.json({ newScore1, newScore2, reasoning1, reasoning2, accepted });
+      return {
+        newScores,
+        reasonings,
+        accepted,
+        receipt: revisedReceipt,
+      };
+    };
+
+    if (wantsJudgeStream(req)) {
+      const fields = { count: adjectives.length, scorePrefix: "newScore" };
+      return streamVerdictResponse(fields, (r) => r.newScores, judgeAppeal, appealFailure);
+    }
+    return NextResponse.json(await judgeAppeal());
   } catch (error) {
-    console.error("Error in /api/appeal:", error);
-    return NextResponse.json(
-      { error: "Failed to process appeal" },
-      { status: 500 },
-    );
+    const { status, body } = appealFailure(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+function appealFailure(error: unknown): JudgeFailure {
+  console.error("Error in /api/appeal:", error);
+  if (error instanceof JudgeVerdictError) {
+    return {
+      status: 502,
+      body: { error: "The judge couldn't reach a verdict on your appeal", code: "invalid_verdict" },
+    };
   }
+  return { status: 500, body: { error: "Failed to process appeal" } };
 }
 
 function buildAppealPrompt(
-  adjective1: string,
-  adjective2: string,
+  adjectives: string[],
   noun: string,
-  originalScore1: number,
-  originalScore2: number,
+  originalScores: number[],
   originalReasoning: string,
   appealText: string,
+  persona: JudgePersona,
 ): string {
-  return `You are a brutally honest, confrontational game show judge in the style of Simon Cowell reviewing an appeal in the replay booth. You're sharp, opinionated, and never hold back. Your personality is your weapon—use it aggressively.
-
-CRITICAL: Your responses MUST be HILARIOUS, FULL OF CHARACTER, and MEMORABLE. Being funny and entertaining is MORE IMPORTANT than being informative. Every single response should make the player laugh, groan, or react. Never be bland, generic, or safe.
-
-Players are scored 1–10 on how well their ANSWER matches TWO CATEGORIES simultaneously. They may file a short text appeal if they think the scores were unfair.
-Your job is to re-evaluate BOTH scores once, taking their appeal into account, and either keep each score or raise it. Never lower a score.
-
-CATEGORY WORD 1: ${adjective1}
-CATEGORY WORD 2: ${adjective2}
+  const count = countWord(adjectives.length);
+  const categoryLines = adjectives.map((adjective, i) => `CATEGORY WORD ${i + 1}: ${adjective}`).join("\n");
+  const scoreLines = originalScores.map((score, i) => `ORIGINAL SCORE ${i + 1} (1–10): ${score}`).join("\n");
+  const reasoningLines = numberedFields("reasoning", adjectives.length)
+    .map((field) => `- ${field}: A 1-2 sentence MEMORABLE explanation in your ${persona.voice}. ${persona.reasoningStyle}`)
+    .join("\n");
+  const jsonShape = [
+    ...originalScores.map((_, i) => `"newScore${i + 1}": <integer >= originalScore${i + 1} and <= 10>`),
+    `"accepted": <true_if_any_score_increased_else_false>`,
+    ...adjectives.map((_, i) => `"reasoning${i + 1}": "<1-2 characterful sentences for adjective${i + 1}>"`),
+  ].join(", ");
+
+  return `You are ${persona.role} reviewing an appeal in the replay booth. ${persona.temperament}
+
+${persona.critical}
+
+Players are scored 1–10 on how well their ANSWER matches ${count} CATEGORIES simultaneously. They may file a short text appeal if they think the scores were unfair.
+Your job is to re-evaluate ${adjectives.length === 2 ? "BOTH" : `ALL ${count}`} scores once, taking their appeal into account, and either keep each score or raise it. Never lower a score.
+
+${categoryLines}
 ANSWER: ${noun}
-ORIGINAL SCORE 1 (1–10): ${originalScore1}
-ORIGINAL SCORE 2 (1–10): ${originalScore2}
+${scoreLines}
 ORIGINAL REASONING: ${originalReasoning || "(none provided)"}
 PLAYER'S APPEAL (max 256 chars): ${appealText}
 
@@ -95,83 +163,17 @@ Rules:
 - Only increase a score if the appeal surfaces a genuinely strong reason the answer fits that category better than you first judged.
 - Small improvements (e.g., +1–2) are fine when the appeal is modestly persuasive.
 - Larger jumps (e.g., +3 or more) should be rare and reserved for clearly misjudged but excellent answers.
-- Be conservative but fair; it's okay to say no to either or both increases.
-- Score each adjective independently; an appeal might only affect one of the two scores.
-
-You must provide TWO separate reasonings, one for each adjective:
-- reasoning1: A 1-2 sentence HILARIOUS, MEMORABLE explanation in your confrontational Simon Cowell-style voice. Make it FUNNY. Use wordplay, absurd comparisons, unexpected takes, or sharp observations. The goal is to make the player laugh or react, not to explain the decision in detail.
-- reasoning2: A 1-2 sentence HILARIOUS, MEMORABLE explanation in your confrontational Simon Cowell-style voice. Make it FUNNY. Use wordplay, absurd comparisons, unexpected takes, or sharp observations. The goal is to make the player laugh or react, not to explain the decision in detail.
+- Be conservative but fair; it's okay to say no to any or all of the increases.
+- Score each adjective independently; an appeal might only affect one of the scores.
 
-HUMOR REQUIREMENTS (MANDATORY - THIS IS THE PRIORITY):
-- EVERY response must be FUNNY. Not just "personality" - actually funny. Make jokes, use wordplay, be absurd, be clever.
-- Use your voice aggressively: be opinionated, sharp, witty, and MEMORABLE.
-- Inject humor into EVERY sentence. If it's not making someone laugh or at least smile, it's not good enough.
-- Be creative with your humor: unexpected angles, clever wordplay, absurd observations, sharp one-liners.
-- Don't just explain the decision - make a JOKE about it, make an OBSERVATION about it, make it ENTERTAINING.
+You must provide ${count} separate reasonings, one for each adjective:
+${reasoningLines}
 
-APPEAL-SPECIFIC HUMOR:
-- If you're rejecting the appeal (keeping scores the same): Be brutally funny about why their appeal didn't work. Roast their appeal. Make sharp, cutting jokes. Use absurd comparisons. Make them laugh even as you're rejecting them. Examples: "Look, I hear what you're saying, but I also hear what I'm saying, and I'm saying no." "Nice try, but that appeal has about as much impact as a feather in a hurricane." "I appreciate the effort, but effort doesn't change facts, and the fact is that's still not it."
-- If you're accepting the appeal (raising scores): Acknowledge they made a good point, but do it with humor and style. Make jokes, use wordplay, be clever. Even when you're giving them points, maintain your sharp, funny personality. Examples: "Alright, you know what? You've got a point there, and I hate when that happens." "Okay, I see what you mean—that's actually fair, which is rare and should be celebrated." "You know what, you're right. I was being too harsh, and I'm not used to being wrong, so this is awkward."
+${persona.appealStyle}
 
-EXAMPLES OF BAD (NOT FUNNY ENOUGH):
-- "The appeal is considered but the score remains the same."
-- "The score is adjusted based on the appeal."
-- "The appeal provides additional context."
-
-Each reasoning should focus ONLY on its respective adjective and the appeal's relevance to that specific category. Be entertaining, sharp, and memorable. Your jokes should be contextually relevant to the answer, adjectives, and appeal.
-- PRIORITIZE BEING FUNNY over being informative. If you have to choose between explaining the decision clearly and making a great joke, choose the joke.
+Each reasoning should focus ONLY on its respective adjective and the appeal's relevance to that specific category. Your remarks should be contextually relevant to the answer, adjectives, and appeal.
+- ${persona.priority}
 
 Respond ONLY with strict JSON in this shape (no extra text, no commentary):
-{"newScore1": <integer >= originalScore1 and <= 10>, "newScore2": <integer >= originalScore2 and <= 10>, "accepted": <true_if_either_score_increased_else_false>, "reasoning1": "<1-2 funny, characterful sentences for adjective1>", "reasoning2": "<1-2 funny, characterful sentences for adjective2>"}`.trim();
-}
-
-function parseAppealResponse(
-  raw: string,
-  originalScore1: number,
-  originalScore2: number,
-): { newScore1: number; newScore2: number; reasoning1: string; reasoning2: string; accepted: boolean } {
-  // Try JSON parse first
-  try {
-    const parsed = JSON.parse(raw) as {
-      newScore1?: number;
-      newScore2?: number;
-      accepted?: boolean;
-      reasoning1?: string;
-      reasoning2?: string;
-    };
-
-    if (typeof parsed.newScore1 === "number" && typeof parsed.newScore2 === "number") {
-      const base1 = Math.max(originalScore1, parsed.newScore1);
-      const base2 = Math.max(originalScore2, parsed.newScore2);
-      const clamped1 = Math.min(10, Math.max(originalScore1, Math.round(base1)));
-      const clamped2 = Math.min(10, Math.max(originalScore2, Math.round(base2)));
-      const accepted = clamped1 > originalScore1 || clamped2 > originalScore2 || parsed.accepted === true;
-      return {
-        newScore1: clamped1,
-        newScore2: clamped2,
-        reasoning1: parsed.reasoning1?.toString() || "",
-        reasoning2: parsed.reasoning2?.toString() || "",
-        accepted,
-      };
-    }
-  } catch {
-    // ignore and fall through
-  }
-
-  // Fallback regex parsing
-  const match1 = raw.match(/"newScore1"\s*:\s*(\d)/i);
-  const match2 = raw.match(/"newScore2"\s*:\s*(\d)/i);
-  const numeric1 = match1 ? Number(match1[1]) : originalScore1;
-  const numeric2 = match2 ? Number(match2[1]) : originalScore2;
-  const clamped1 = Math.min(10, Math.max(originalScore1, Math.round(numeric1)));
-  const clamped2 = Math.min(10, Math.max(originalScore2, Math.round(numeric2)));
-
-  const reasoning1Match = raw.match(/"reasoning1"\s*:\s*"([\s\S]*?)"/i);
-  const reasoning2Match = raw.match(/"reasoning2"\s*:\s*"([\s\S]*?)"/i);
-  const reasoning1 = reasoning1Match ? reasoning1Match[1] : "";
-  const reasoning2 = reasoning2Match ? reasoning2Match[1] : "";
-
-  const accepted = clamped1 > originalScore1 || clamped2 > originalScore2;
-
-  return { newScore1: clamped1, newScore2: clamped2, reasoning1, reasoning2, accepted };
+{${jsonShape}}`.trim();
 }
@@ -0,0 +1,175 @@
+import { ImageResponse } from "next/og";
+import { NextResponse } from "next/server";
+import { getCardFonts } from "@/lib/cardFonts";
+import { GameRules, segmentsPerPillar } from "@/lib/gameRules";
+import { combinedScore, filledSegmentsFor, gradeFor, maxCombinedScore, overflowPointsFor } from "@/lib/scoring";
+import { decodeResultCard } from "@/lib/resultCard";
+
+// PNG result card for link unfurls. Everything shown comes from the payload
+// in the URL, so the image is fully cacheable.
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+// Segments share the pillar's height, however many the rules make
+const PILLAR_HEIGHT = 428;
+
+const COLORS = {
+  bg: "#12041f",
+  surface: "#241235",
+  accent: "#ffb347",
+  pink: "#ff5fa2",
+  cyan: "#5cf2ff",
+  lime: "#a3ff6b",
+  yellow: "#ffe45c",
+  text: "#fef7ff",
+  muted: "#c2b3d9",
+};
+
+// One per pillar, in the board's order
+const PILLAR_COLORS = [COLORS.pink, COLORS.cyan, COLORS.lime, COLORS.yellow];
+
+function Pillar({ points, color, rules, width }: { points: number; color: string; rules: GameRules; width: number }) {
+  const filled = filledSegmentsFor(points, rules);
+  const overflow = overflowPointsFor(points, rules);
+  return (
+    <div style={{ display: "flex", flexDirection: "column-reverse", gap: 12, width, height: PILLAR_HEIGHT }}>
+      {Array.from({ length: segmentsPerPillar(rules) }, (_, i) => (
+        <div
+          key={i}
+          style={{
+            flex: 1,
+            borderRadius: 10,
+            border: `3px solid ${i < filled ? color : "rgba(255,255,255,0.18)"}`,
+            background: i < filled ? color : "rgba(255,255,255,0.06)",
+            boxShadow: i < filled ? `0 0 24px ${color}` : "none",
+          }}
+        />
+      ))}
+      {/* Past the cap: a flare off the top of the pillar */}
+      {overflow > 0 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            fontSize: 28,
+            fontWeight: 700,
+            color,
+            textShadow: `0 0 16px ${color}`,
+          }}
+        >
+          {`+${overflow}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ payload: string }> },
+) {
+  const { payload } = await params;
+  const card = decodeResultCard(payload);
+  if (!card) {
+    return NextResponse.json({ error: "Invalid result card" }, { status: 400 });
+  }
+
+  const grade = gradeFor(card.pillars, card.rules);
+  const colorOf = (i: number) => PILLAR_COLORS[i % PILLAR_COLORS.length];
+  // Like the board: the first half of the pillars on the left, the rest on the right
+  const leftCount = Math.ceil(card.pillars.length / 2);
+  const pillarWidth = card.pillars.length > 2 ? 64 : 96;
+  const pillarGroup = (from: number, to: number) => (
+    <div style={{ display: "flex", gap: 20 }}>
+      {card.pillars.slice(from, to).map((points, i) => (
+        <Pillar key={from + i} points={points} color={colorOf(from + i)} rules={card.rules} width={pillarWidth} />
+      ))}
+    </div>
+  );
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          gap: 56,
+          padding: "48px 64px",
+          backgroundColor: COLORS.bg,
+          backgroundImage:
+            "radial-gradient(circle at 10% 0%, rgba(255,191,105,0.35), transparent 55%), radial-gradient(circle at 90% 100%, rgba(92,242,255,0.3), transparent 55%)",
+          color: COLORS.text,
+          fontFamily: "Space Grotesk",
+        }}
+      >
+        {pillarGroup(0, leftCount)}
+
+        <div style={{ flex: 1, display: "flex", flexDirection: "column", gap: 20 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
+            <div style={{ fontFamily: "Bungee", fontSize: 44, color: COLORS.accent }}>Off the Charts</div>
+            <div style={{ fontSize: 26, color: COLORS.muted }}>{card.label}</div>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: 18,
+              fontFamily: "Bungee",
+              fontSize: card.adjectives.length > 2 ? 40 : 54,
+            }}
+          >
+            {card.adjectives.flatMap((adjective, i) => [
+              ...(i > 0 ? [<span key={`and-${i}`} style={{ color: COLORS.muted }}>&</span>] : []),
+              <span key={adjective} style={{ color: colorOf(i) }}>{adjective.toUpperCase()}</span>,
+            ])}
+          </div>
+
+          <div style={{ display: "flex", alignItems: "baseline", gap: 14 }}>
+            <span style={{ fontSize: 96, fontWeight: 700, color: COLORS.cyan }}>{grade.finalScore}</span>
+            <span style={{ fontSize: 40, color: COLORS.muted }}>{`/ ${grade.maxFinalScore}`}</span>
+            {grade.overflow > 0 && (
+              <span style={{ fontSize: 40, fontWeight: 700, color: COLORS.accent }}>{`+${grade.overflow} off the charts`}</span>
+            )}
+          </div>
+
+          {card.best && (
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: 10,
+                padding: "20px 26px",
+                borderRadius: 24,
+                background: COLORS.surface,
+                border: `2px solid rgba(255,95,162,0.5)`,
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
+                <span style={{ fontSize: 38, fontWeight: 700 }}>{card.best.noun.toUpperCase()}</span>
+                <span style={{ fontSize: 32, fontWeight: 700, color: COLORS.pink }}>
+                  {`${combinedScore(card.best.scores)}/${maxCombinedScore(card.best.scores.length)}`}
+                </span>
+              </div>
+              {card.best.quip && (
+                <div style={{ fontSize: 26, lineHeight: 1.3, color: COLORS.muted }}>
+                  {`“${card.best.quip}”`}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {pillarGroup(leftCount, card.pillars.length)}
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      fonts: await getCardFonts(),
+      headers: { "Cache-Control": "public, max-age=31536000, immutable" },
+    },
+  );
+}
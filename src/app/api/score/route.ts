@@ -1,194 +1,98 @@
 import { NextResponse } from "next/server";
-import { DEFAULT_MODEL_ID, getOpenAIClient } from "@/lib/openai";
+import { validateAnswer } from "@/lib/answerValidation";
+import { getJudgeProvider } from "@/lib/judge";
+import { JudgeFailure, streamVerdictResponse, wantsJudgeStream } from "@/lib/judgeStream";
+import { getPersona } from "@/lib/personas";
+import { resolvePuzzle } from "@/lib/puzzle";
+import { issueReceipt } from "@/lib/receipt";
+import { scoreGuess } from "@/lib/scoreGuess";
+import { JudgeVerdictError } from "@/lib/verdict";
 
 export async function POST(req: Request) {
   try {
-    const { adjective1, adjective2, noun, previousNouns, placeholderCategory } = (await req.json()) as {
-      adjective1?: string;
-      adjective2?: string;
-      noun?: string;
-      previousNouns?: string[];
+    const { puzzle: puzzleRef, noun: rawNoun, previousNouns, placeholderCategory, persona: personaId, panel: panelMode } = (await req.json()) as {
+      puzzle?: unknown;
+      persona?: unknown;
+      panel?: unknown;
+      noun?: unknown;
+      previousNouns?: unknown;
       placeholderCategory?: string;
     };
 
-    if (!adjective1 || !adjective2 || !noun) {
+    if (!puzzleRef || typeof rawNoun !== "string") {
       return NextResponse.json(
-        { error: "Missing adjective1, adjective2, or noun" },
+        { error: "Missing puzzle or noun" },
         { status: 400 },
       );
     }
 
-    const openai = getOpenAIClient();
-
-    const prompt = buildScoringPrompt(adjective1, adjective2, noun, previousNouns || [], placeholderCategory);
-
-    const response = await openai.chat.completions.create({
-      model: DEFAULT_MODEL_ID,
-      messages: [
-        {
-          role: "system",
-          content: prompt,
-        },
-      ],
-      max_completion_tokens: 180,
-      reasoning_effort:
-        DEFAULT_MODEL_ID === "gpt-5.2-2025-12-11" ? ("none" as any) : "minimal",
-      verbosity: "low",
-    });
-
-    const raw = response.choices[0]?.message?.content?.trim() ?? "";
+    // Adjectives always come from the server's view of the puzzle, never
+    // from the client.
+    const puzzle = resolvePuzzle(puzzleRef);
+    if (!puzzle) {
+      return NextResponse.json(
+        { error: "Unknown or expired puzzle", code: "invalid_puzzle" },
+        { status: 400 },
+      );
+    }
 
-    const { score1, score2, reasoning1, reasoning2 } = parseScoringResponse(raw);
+    const priorAnswers = (Array.isArray(previousNouns) ? previousNouns : []).filter(
+      (prior): prior is string => typeof prior === "string",
+    );
+    const validation = validateAnswer(rawNoun, puzzle.adjectives, priorAnswers);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: "Answer not allowed", code: "invalid_answer", rejection: validation.rejection },
+        { status: 422 },
+      );
+    }
+    const noun = validation.answer;
+
+    const judge = getJudgeProvider();
+    const persona = getPersona(personaId);
+
+    const judgeGuess = async (onPartial?: (raw: string) => void) => {
+      const { verdict, panel } = await scoreGuess(judge, {
+        adjectives: puzzle.adjectives,
+        noun,
+        previousNouns: priorAnswers,
+        persona,
+        placeholderCategory,
+        panel: panelMode === true,
+        onPartial,
+      });
+      const { scores, reasonings } = verdict;
+
+      const receipt = issueReceipt({
+        puzzle: puzzle.ref,
+        adjectives: puzzle.adjectives,
+        noun,
+        scores,
+        appealed: false,
+      });
+
+      return { scores, reasonings, receipt, panel };
+    };
 
-    return NextResponse.json({ score1, score2, reasoning1, reasoning2 });
+    // Validation errors above are always plain JSON; only the judging streams.
+    if (wantsJudgeStream(req)) {
+      const fields = { count: puzzle.adjectives.length, scorePrefix: "score" };
+      return streamVerdictResponse(fields, (r) => r.scores, judgeGuess, scoringFailure);
+    }
+    return NextResponse.json(await judgeGuess());
   } catch (error) {
-    console.error("Error in /api/score:", error);
-    return NextResponse.json(
-      { error: "Failed to score guess" },
-      { status: 500 },
-    );
+    const { status, body } = scoringFailure(error);
+    return NextResponse.json(body, { status });
   }
 }
 
-function buildScoringPrompt(
-  adjective1: string,
-  adjective2: string,
-  noun: string,
-  previousNouns: string[],
-  placeholderCategory?: string,
-): string {
-  const allAnswers = [...previousNouns, noun];
-
-  const indexedAnswers =
-    allAnswers.length === 0
-      ? "(none yet)"
-      : allAnswers
-          .map((answer, index) => `${index}: ${answer}`)
-          .join("; ");
-
-  const categoryContext = placeholderCategory 
-    ? `\n\nCONTEXT NOTE: The player saw a prompt suggesting they try a "${placeholderCategory}". This is provided ONLY for context to help you understand why they might have given this type of answer. Do NOT use this to penalize them - if they gave a different type of answer, that's perfectly fine. Score based solely on how well the answer matches the two adjectives, regardless of whether it matches the suggested category type.`
-    : "";
-
-  return `You are a brutally honest, confrontational game show judge in the style of Simon Cowell. You're sharp, opinionated, and never hold back. Your personality is your weapon—use it aggressively.
-
-CRITICAL: Your responses MUST be HILARIOUS, FULL OF CHARACTER, and MEMORABLE. Being funny and entertaining is MORE IMPORTANT than being informative. Every single response should make the player laugh, groan, or react. Never be bland, generic, or safe.
-
-The player is given TWO ADJECTIVES and tries to name WORDS AND PHRASES that feel like strong, vivid matches to BOTH adjectives simultaneously.
-Your job is to rate each answer on how well it matches EACH adjective separately (1–10 for each), then give a HILARIOUS, CHARACTERFUL explanation, as if you are talking directly to the contestant on stage.${categoryContext}
-
-SCORING SCALE (1–10 for EACH adjective, you MUST use the whole range):
-- 1–2 = very weak fit; barely or not really connected to the adjective.
-- 3–4 = partial or generic fit; some connection, but far from ideal.
-- 5–6 = decent fit; clearly on theme, but missing key aspects.
-- 7–8 = strong fit; vivid and satisfying, but still leaving clear room to feel even more like the adjective.
-- 9    = excellent fit; extremely strong and clearly on-theme.
-- 10   = iconic answer for this adjective: as strong and on-theme as you would reasonably hope for in a party game.
-
-IMPORTANT: obscure, specific, or surprising answers are WELCOME.
-- Do NOT lower a score just because an answer is niche, uncommon, personal, or oddly specific.
-- As long as the concept clearly embodies the adjective, it can earn a very high score, including 10/10.
-- Score each adjective INDEPENDENTLY. An answer might be a 10/10 for one adjective and a 6/10 for the other, and that's perfectly fine.
-
-CALIBRATION (how to think about the scale):
-- Imagine a range of good answers for each adjective, not a single \"right\" one.
-- A 10/10 should feel like it sits at the very top of that range: a delightfully strong match you would happily celebrate on the show.
-- Most reasonable answers should land somewhere in the 3–8 range, but do NOT be so strict that 10/10 almost never occurs; it is fine for obviously excellent answers to reach 10/10.
-- Use the full 1–10 range over many games; avoid clustering everything at the very top, but do not treat 10 as nearly forbidden.
-
-PROGRESSION BONUS (player trajectory matters):
-- First, decide the objective base scores (1–10 for each adjective) for the CURRENT ANSWER in isolation.
-- Then, compare it to all PREVIOUS ANSWERS:
-  - If the current answer is clearly a stronger, more archetypal fit for an adjective than every previous answer, you may bump that adjective's score up by +1 (without ever exceeding 10).
-  - If it is not clearly better than the best previous answer for that adjective, do NOT apply the progression bonus.
-  - Never apply more than a +1 progression bonus per adjective on top of the base score.
-
-ADJECTIVE 1: ${adjective1}
-ADJECTIVE 2: ${adjective2}
-CURRENT ANSWER: ${noun}
-ANSWER LIST (oldest to newest, with indices):
-${indexedAnswers}
-
-The index of the CURRENT ANSWER in this list is ${
-    allAnswers.length - 1
-  } (0-based).
-
-If you are unsure between two scores, choose the *lower* score.
-
-You must provide TWO separate reasonings, one for each adjective:
-- reasoning1: A single, HILARIOUS, MEMORABLE sentence in your confrontational Simon Cowell-style voice. Make it FUNNY. Use wordplay, absurd comparisons, unexpected takes, or sharp observations. The goal is to make the player laugh or react, not to explain the score in detail.
-- reasoning2: A single, HILARIOUS, MEMORABLE sentence in your confrontational Simon Cowell-style voice. Make it FUNNY. Use wordplay, absurd comparisons, unexpected takes, or sharp observations. The goal is to make the player laugh or react, not to explain the score in detail.
-
-HUMOR REQUIREMENTS (MANDATORY - THIS IS THE PRIORITY):
-- EVERY response must be FUNNY. Not just "personality" - actually funny. Make jokes, use wordplay, be absurd, be clever.
-- Use your voice aggressively: be opinionated, sharp, witty, and MEMORABLE.
-- Inject humor into EVERY sentence. If it's not making someone laugh or at least smile, it's not good enough.
-- Be creative with your humor: unexpected angles, clever wordplay, absurd observations, sharp one-liners.
-- Don't just describe the score - make a JOKE about it, make an OBSERVATION about it, make it ENTERTAINING.
-
-SCORE-SPECIFIC HUMOR:
-- For LOW SCORES (1-4): Be brutally funny. Roast them. Make sharp, cutting jokes. Use absurd comparisons. Be creative and unexpected. Make them laugh even as you're destroying them.
-- For MID SCORES (5-7): Be witty and clever. Make observations, use wordplay, find the humor in the situation. Be entertaining.
-- For HIGH SCORES (8-10): Celebrate with style and humor. Make clever observations, use wordplay, be enthusiastic but still sharp and funny.
-
-EXAMPLES OF BAD (NOT FUNNY ENOUGH):
-- "This answer has some connection to the adjective."
-- "The answer fits moderately well."
-- "This is a decent match."
-- "The answer relates to the category."
-
-Keep both reasonings concise but HILARIOUS and FULL of character. Be entertaining, sharp, and memorable. Your jokes should be contextually relevant to the answer and adjectives.
-- Do NOT talk as if there is one secret \"perfect\" answer you were hoping for.
-- Do NOT say things like "not quite the perfect example" or "there are better answers out there".
-- Each reasoning should focus ONLY on its respective adjective, not both.
-- PRIORITIZE BEING FUNNY over being informative. If you have to choose between explaining the score clearly and making a great joke, choose the joke.
-
-Respond ONLY with strict JSON in this shape (no extra text, no commentary):
-{"score1": <integer 1-10 for adjective1>, "score2": <integer 1-10 for adjective2>, "reasoning1": "<one funny, characterful sentence for adjective1>", "reasoning2": "<one funny, characterful sentence for adjective2>"}`.trim();
-}
-
-function parseScoringResponse(raw: string): {
-  score1: number;
-  score2: number;
-  reasoning1: string;
-  reasoning2: string;
-} {
-  // Try JSON first
-  try {
-    const parsed = JSON.parse(raw) as {
-      score1?: number;
-      score2?: number;
-      reasoning1?: string;
-      reasoning2?: string;
+function scoringFailure(error: unknown): JudgeFailure {
+  console.error("Error in /api/score:", error);
+  if (error instanceof JudgeVerdictError) {
+    return {
+      status: 502,
+      body: { error: "The judge couldn't reach a verdict", code: "invalid_verdict" },
     };
-    if (typeof parsed.score1 === "number" && typeof parsed.score2 === "number") {
-      const clamped1 = Math.min(10, Math.max(1, Math.round(parsed.score1)));
-      const clamped2 = Math.min(10, Math.max(1, Math.round(parsed.score2)));
-      const reasoning1 = (parsed.reasoning1 ?? "").toString();
-      const reasoning2 = (parsed.reasoning2 ?? "").toString();
-      return {
-        score1: clamped1,
-        score2: clamped2,
-        reasoning1,
-        reasoning2,
-      };
-    }
-  } catch {
-    // fall through to regex
   }
-
-  // Fallback regex parsing
-  const match1 = raw.match(/"score1"\s*:\s*(\d+)/i);
-  const match2 = raw.match(/"score2"\s*:\s*(\d+)/i);
-  const score1Num = match1 ? Number(match1[1]) : 5;
-  const score2Num = match2 ? Number(match2[1]) : 5;
-  const clamped1 = Math.min(10, Math.max(1, Math.round(score1Num)) || 5);
-  const clamped2 = Math.min(10, Math.max(1, Math.round(score2Num)) || 5);
-
-  const reasoning1Match = raw.match(/"reasoning1"\s*:\s*"([\s\S]*?)"/i);
-  const reasoning2Match = raw.match(/"reasoning2"\s*:\s*"([\s\S]*?)"/i);
-  const reasoning1 = reasoning1Match ? reasoning1Match[1] : "";
-  const reasoning2 = reasoning2Match ? reasoning2Match[1] : "";
-
-  return { score1: clamped1, score2: clamped2, reasoning1, reasoning2 };
+  return { status: 500, body: { error: "Failed to score guess" } };
 }
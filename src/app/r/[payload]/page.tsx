@@ -0,0 +1,70 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { combinedScore, gradeFor, maxCombinedScore } from "@/lib/scoring";
+import { formatAdjectives } from "@/lib/puzzle";
+import { decodeResultCard } from "@/lib/resultCard";
+
+// Landing page for shared results. Its main job is the Open Graph tags, so a
+// shared link unfurls as the result card; visitors get the card and a way in.
+
+type ResultPageProps = {
+  params: Promise<{ payload: string }>;
+};
+
+export async function generateMetadata({ params }: ResultPageProps): Promise<Metadata> {
+  const { payload } = await params;
+  const card = decodeResultCard(payload);
+  if (!card) return { title: "Off the Charts" };
+
+  const adjectives = formatAdjectives(card.adjectives);
+  const title = `Off the Charts · ${gradeFor(card.pillars, card.rules).label} on ${adjectives}`;
+  const description = card.best
+    ? `Best answer: ${card.best.noun} (${combinedScore(card.best.scores)}/${maxCombinedScore(card.best.scores.length)}). Can you beat it?`
+    : "Daily word-association game. Can you beat it?";
+  const image = {
+    url: `/api/card/${payload}`,
+    width: 1200,
+    height: 630,
+    alt: `${adjectives} result card`,
+  };
+
+  // Unfurlers need an absolute image URL; use whatever host served this page.
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const protocol = requestHeaders.get("x-forwarded-proto") ?? "https";
+
+  return {
+    metadataBase: host ? new URL(`${protocol}://${host}`) : undefined,
+    title,
+    description,
+    openGraph: { title, description, images: [image], type: "website" },
+    twitter: { card: "summary_large_image", title, description, images: [image.url] },
+  };
+}
+
+export default async function ResultPage({ params }: ResultPageProps) {
+  const { payload } = await params;
+  const card = decodeResultCard(payload);
+  if (!card) notFound();
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 px-4 py-6 text-center">
+      <div className="font-display text-2xl text-otc-accent">Off the Charts</div>
+      <img
+        src={`/api/card/${payload}`}
+        alt={`${formatAdjectives(card.adjectives)} result card`}
+        width={1200}
+        height={630}
+        className="w-full h-auto rounded-2xl border border-white/10 shadow-otc-card"
+      />
+      <Link
+        href="/"
+        className="rounded-full bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt px-4 py-2 text-sm font-semibold text-black shadow-otc-glow"
+      >
+        Play today's game
+      </Link>
+    </div>
+  );
+}
@@ -1,107 +1,207 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState, useCallback, useLayoutEffect, useId } from "react";
-import { GuessResult, useDailyGameState } from "@/hooks/useDailyGameState";
-
-type ScoreResponse = {
-  score1: number;
-  score2: number;
-  reasoning1: string;
-  reasoning2: string;
-};
+import { useEffect, useMemo, useRef, useState, useLayoutEffect, useId } from "react";
+import Link from "next/link";
+import { PLACEHOLDER_CATEGORIES } from "@/data/categories";
+import { GameState, GuessResult, useDailyGameState } from "@/hooks/useDailyGameState";
+import { describeRejection, MAX_ANSWER_LENGTH, validateAnswer } from "@/lib/answerValidation";
+import { Challenge, challengeFromState, challengeGrade, encodeChallenge } from "@/lib/challenge";
+import { DEFAULT_GAME_RULES, GameRules, segmentsPerPillar } from "@/lib/gameRules";
+import { computeStats, PlayHistory, PlayStats } from "@/lib/history";
+import { JUDGE_STREAM_CONTENT_TYPE, readJudgeStream } from "@/lib/judgeStream";
+import type { PanelistVerdict } from "@/lib/panel";
+import { PERSONA_IDS, PERSONAS, PersonaId } from "@/lib/personas";
+import { ARCHIVE_FIRST_DAY, dailyCategoriesFor, formatAdjectives, isArchiveDay, todayKey } from "@/lib/puzzle";
+import { nextRolloverAt } from "@/lib/rollover";
+import { buildShareText, shareResult, shareUrlFor } from "@/lib/share";
+import { JudgeErrorResponse, requestScore } from "@/lib/scoreClient";
+import {
+  combinedScore,
+  compareFinalScores,
+  filledSegmentsFor,
+  gradeFor,
+  GameScore,
+  maxCombinedScore,
+  overflowPointsFor,
+} from "@/lib/scoring";
 
 type AppealResponse = {
-  newScore1: number;
-  newScore2: number;
-  reasoning1: string;
-  reasoning2: string;
+  newScores: number[];
+  reasonings: string[];
   accepted?: boolean;
+  receipt?: string;
+};
+
+// A verdict that is still streaming in (or was streamed this session, so its
+// typewriter reveal can finish). Streamed scores are provisional (a repair
+// can still replace them, or the verdict can fail outright), so they only
+// live here; the game state gets the final verdict or nothing.
+type LiveVerdict = {
+  roundIndex: number;
+  noun?: string; // a new guess that isn't recorded yet
+  scores?: number[];
+  reasonings: string[];
+  streaming: boolean;
 };
 
-const PLACEHOLDER_CATEGORIES = [
-  "Cultural Icon",
-  "Whole Sentence",
-  "Sports Team",
-  "Organism",
-  "Philosophy",
-  "Scenario",
-  "Piece of Media",
-  "Organization",
-  "Piece of Technology",
-  "Product"
+// Changes whenever a different game is loaded
+function gameKeyFor(state: GameState): string {
+  if (state.mode === "daily") return state.dateKey;
+  if (state.mode === "archive") return `archive-${state.dateKey}`;
+  return `${state.mode}-${state.adjectives.join("-")}`;
+}
+
+// One colour set per pillar, in the puzzle's adjective order. Tailwind only
+// picks up class names written out in full, hence the repetition.
+const PILLAR_PALETTE = [
+  {
+    text: "text-pink-400",
+    score: "text-otc-accent-strong",
+    fill: "bg-pink-400",
+    border: "border-pink-400/30",
+    topBar: "bg-pink-400 border-pink-500 shadow-[0_0_4px_rgba(244,114,182,0.6)]",
+    rgb: "244, 114, 182",
+  },
+  {
+    text: "text-cyan-400",
+    score: "text-otc-accent-alt",
+    fill: "bg-cyan-400",
+    border: "border-cyan-400/30",
+    topBar: "bg-cyan-400 border-cyan-500 shadow-[0_0_4px_rgba(34,211,238,0.6)]",
+    rgb: "34, 211, 238",
+  },
+  {
+    text: "text-lime-400",
+    score: "text-lime-300",
+    fill: "bg-lime-400",
+    border: "border-lime-400/30",
+    topBar: "bg-lime-400 border-lime-500 shadow-[0_0_4px_rgba(163,230,53,0.6)]",
+    rgb: "163, 230, 53",
+  },
+  {
+    text: "text-yellow-300",
+    score: "text-yellow-200",
+    fill: "bg-yellow-300",
+    border: "border-yellow-300/30",
+    topBar: "bg-yellow-300 border-yellow-400 shadow-[0_0_4px_rgba(253,224,71,0.6)]",
+    rgb: "253, 224, 71",
+  },
 ];
 
-export function Game() {
+function pillarColors(pillarIndex: number) {
+  return PILLAR_PALETTE[pillarIndex % PILLAR_PALETTE.length];
+}
+
+type ActiveParticle = {
+  id: string;
+  pillarIndex: number;
+  segmentIndex: number; // index into the top bar, -1 for overflow
+  overflow?: boolean; // points past the cap, flying to the overflow badge
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+};
+
+// Cap on the extra particles a pillar spits out when it goes past its top
+const MAX_OVERFLOW_PARTICLES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2026-10-03" or a daily key -> "Oct 3, 2026"
+function formatDay(
+  dayOrKey: string,
+  options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" },
+): string {
+  const date = new Date(`${dayOrKey.slice(0, 10)}T00:00:00Z`);
+  return date.toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
+
+type GameProps = {
+  challenge?: string; // challenge link payload, from /c/[payload]
+};
+
+export function Game({ challenge }: GameProps = {}) {
   const {
     state,
     isLoaded,
     isComplete,
+    isFinal,
     currentTurn,
-    totalScore,
+    puzzleRef,
+    pendingScoringCount,
+    score: gameScore,
+    history,
     submitGuessLocally,
     submitPassLocally,
-    advanceTurn,
+    dispatchPhase,
+    claimRound,
     applyScore,
     applyAppealResult,
+    enqueueScoring,
+    giveUpScoring,
+    retryScoringNow,
+    setPersona,
+    setPanelMode,
     resetDaily,
+    playArchive,
+    backToDaily,
+    newPuzzleOut,
     forceRandomDebugGame,
-  } = useDailyGameState();
+  } = useDailyGameState(challenge);
+  // Rounds, appeals and pillar sizes all come from the game's own rules
+  const rules = state?.rules ?? DEFAULT_GAME_RULES;
+  const segmentCount = segmentsPerPillar(rules);
+  // One pillar per adjective: the first half stand left of the scoreboard,
+  // the rest on the right. Pillar p's segments come p-th in the top bar.
+  const pillarCount = state?.adjectives.length ?? 2;
+  const leftPillarCount = Math.ceil(pillarCount / 2);
+
+  // Where play is comes from the game's phase (see src/lib/gamePhase.ts)
+  const phase = state?.phase ?? null;
+  const acceptingInput = phase?.kind === "awaiting-input";
+  const submitting = phase?.kind === "scoring"; // a guess is with the judge
+  const awaitingNextCategory = phase?.kind === "between-rounds";
+  // The appeal modal closes once the booth's new scores are in
+  const appealOpenFor = phase?.kind === "appealing" && phase.stage !== "verdict" ? phase.roundIndex : null;
+  const appealSubmitting = phase?.kind === "appealing" && phase.stage === "sending";
 
   const [currentInput, setCurrentInput] = useState("");
-  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [awaitingNextCategory, setAwaitingNextCategory] = useState(false);
 
-  const [appealOpenFor, setAppealOpenFor] = useState<number | null>(null);
   const [appealText, setAppealText] = useState("");
-  const [appealSubmitting, setAppealSubmitting] = useState(false);
   const [appealError, setAppealError] = useState<string | null>(null);
+  const [liveVerdict, setLiveVerdict] = useState<LiveVerdict | null>(null);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const [challengeWithAnswers, setChallengeWithAnswers] = useState(false);
+  // Daily game the player chose to finish after the puzzle rolled over
+  const [finishingKey, setFinishingKey] = useState<string | null>(null);
+  // newPuzzleOut flips when the day does, so streaks are counted up to the new one
+  const stats = useMemo(() => computeStats(history, todayKey()), [history, newPuzzleOut]);
 
   // Reference to the main guess input so we can autofocus it
   const guessInputRef = useRef<HTMLInputElement | null>(null);
   // Reference to the category display
   const categoryRef = useRef<HTMLElement | null>(null);
-  // Track previous cumulative scores for smooth animation transitions
-  const prevCumulativeScoresRef = useRef<[number, number]>([0, 0]);
   // Track which placeholder categories have been used for each round
   const usedCategoriesRef = useRef<Map<number, string>>(new Map());
   
   // Particle system state
-  const [activeParticles, setActiveParticles] = useState<Array<{
-    id: string;
-    isPink: boolean;
-    segmentIndex: number;
-    startX: number;
-    startY: number;
-    endX: number;
-    endY: number;
-  }>>([]);
+  const [activeParticles, setActiveParticles] = useState<ActiveParticle[]>([]);
   const [pendingTopBarUpdates, setPendingTopBarUpdates] = useState<Set<number>>(new Set());
-  const prevFilledSegmentsRef = useRef<[number, number]>([0, 0]); // Track previous filled segment counts
-  const leftPillarRef = useRef<HTMLDivElement | null>(null);
-  const rightPillarRef = useRef<HTMLDivElement | null>(null);
+  const prevFilledSegmentsRef = useRef<number[]>([]); // Track previous filled segment counts, per pillar
+  const prevOverflowRef = useRef<number[]>([]); // Same for points past the cap
+  const pillarRefs = useRef<Array<HTMLDivElement | null>>([]);
   const topBarRef = useRef<HTMLDivElement | null>(null);
+  const overflowBadgeRef = useRef<HTMLSpanElement | null>(null);
   const particleTimeoutIdsRef = useRef<NodeJS.Timeout[]>([]);
-  const leftSegmentContainerRef = useRef<HTMLDivElement | null>(null);
-  const rightSegmentContainerRef = useRef<HTMLDivElement | null>(null);
-  type PillarClipGeom = {
-    w: number;
-    h: number;
-    rects: Array<{ x: number; y: number; w: number; h: number; r: number }>;
-  };
-  const [leftPillarGeom, setLeftPillarGeom] = useState<PillarClipGeom | null>(null);
-  const [rightPillarGeom, setRightPillarGeom] = useState<PillarClipGeom | null>(null);
-  const leftClipIdRaw = useId();
-  const rightClipIdRaw = useId();
-  const leftClipId = `otc-left-pillar-clip-${leftClipIdRaw.replace(/:/g, "")}`;
-  const rightClipId = `otc-right-pillar-clip-${rightClipIdRaw.replace(/:/g, "")}`;
 
   const pillarMeasureKey = useMemo(() => {
     if (!state) return "no-state";
-    // Re-run measurement when a new game is loaded (daily key or debug-random adjectives)
-    return state.mode === "debug-random"
-      ? `random-${state.adjectives[0]}-${state.adjectives[1]}`
-      : state.dateKey;
+    // Re-run measurement when a new game is loaded
+    return gameKeyFor(state);
   }, [state]);
 
   // Temporarily force debug tools on in all builds (including production)
@@ -117,17 +217,15 @@ export function Game() {
   // Reset used categories and score-related state when a new game starts
   useEffect(() => {
     if (!state) return;
-    // For daily mode, use dateKey; for debug-random, use adjectives to ensure fresh categories per game
-    const gameKey = state.mode === "debug-random" 
-      ? `random-${state.adjectives[0]}-${state.adjectives[1]}`
-      : state.dateKey;
+    const gameKey = gameKeyFor(state);
     if (lastGameKeyRef.current !== gameKey) {
       usedCategoriesRef.current.clear();
+      setLiveVerdict(null);
       // Reset all score and particle-related state for new game
       setActiveParticles([]);
       setPendingTopBarUpdates(new Set());
-      prevFilledSegmentsRef.current = [0, 0];
-      prevCumulativeScoresRef.current = [0, 0];
+      prevFilledSegmentsRef.current = [];
+      prevOverflowRef.current = [];
       // Clear any pending particle timeouts
       particleTimeoutIdsRef.current.forEach(id => clearTimeout(id));
       particleTimeoutIdsRef.current = [];
@@ -162,20 +260,6 @@ export function Game() {
     }
   }, [state, currentTurn, awaitingNextCategory]);
 
-  // Calculate cumulative scores for animation (must be before early return)
-  const getCumulativeScoresForAnimation = (): [number, number] => {
-    if (!state) return [0, 0];
-    let total1 = 0;
-    let total2 = 0;
-    state.guesses.forEach((guess) => {
-      if (guess.scores && !guess.isPass) {
-        total1 += guess.scores[0];
-        total2 += guess.scores[1];
-      }
-    });
-    return [total1, total2];
-  };
-
   // Get a category for the current round (deterministic for daily, random for debug-random)
   const placeholderCategory = useMemo(() => {
     if (!state || !currentTurn) return PLACEHOLDER_CATEGORIES[0];
@@ -198,24 +282,9 @@ export function Game() {
       return selected;
     }
     
-    // For daily mode, deterministically select all 3 categories based on dateKey
-    const dateKey = state.dateKey;
-    let hash = 0;
-    for (let i = 0; i < dateKey.length; i++) {
-      hash = (hash * 31 + dateKey.charCodeAt(i)) >>> 0;
-    }
-    
-    // Select 3 categories deterministically for rounds 0-2
-    const selectedCategories: string[] = [];
-    const available = [...PLACEHOLDER_CATEGORIES];
-    
-    for (let round = 0; round < 3; round++) {
-      hash = (hash * 1664525 + 1013904223) >>> 0; // LCG
-      const idx = hash % available.length;
-      selectedCategories.push(available[idx]);
-      available.splice(idx, 1);
-    }
-    
+    // For daily mode, the date decides every round's category (scheduled or hashed)
+    const selectedCategories = dailyCategoriesFor(state.dateKey, state.rules.rounds);
+
     // Store all categories for all rounds
     selectedCategories.forEach((cat, idx) => {
       usedCategoriesRef.current.set(idx, cat);
@@ -225,138 +294,140 @@ export function Game() {
   }, [state, currentTurn]);
 
 
-  const handleSubmitGuess = async () => {
-    if (!state || !currentTurn || submitting || awaitingNextCategory) return;
-    const trimmed = currentInput.trim();
-    if (!trimmed) {
-      setError("Enter a word or phrase to lock in your guess.");
-      return;
-    }
+  const appendLiveReasoning = (roundIndex: number, index: number, delta: string) =>
+    setLiveVerdict((prev) => {
+      if (!prev || prev.roundIndex !== roundIndex) return prev;
+      const reasonings = [...prev.reasonings];
+      reasonings[index] = (reasonings[index] ?? "") + delta;
+      return { ...prev, reasonings };
+    });
 
+  const handleSubmitGuess = async () => {
+    if (!state || !currentTurn || !acceptingInput) return;
     const { roundIndex } = currentTurn;
-    const [adjective1, adjective2] = state.adjectives;
-
-    // Ban answers that essentially just repeat either category word:
-    // - exactly the same as either adjective
-    // - or differ only by adding/removing up to 2 characters at either end
-    const normalized1 = adjective1.trim().toLowerCase();
-    const normalized2 = adjective2.trim().toLowerCase();
-    const normalizedAnswer = trimmed.toLowerCase();
-    const lengthDiff1 = Math.abs(normalizedAnswer.length - normalized1.length);
-    const lengthDiff2 = Math.abs(normalizedAnswer.length - normalized2.length);
-    const sharesPrefix1 =
-      normalizedAnswer.startsWith(normalized1) ||
-      normalized1.startsWith(normalizedAnswer);
-    const sharesPrefix2 =
-      normalizedAnswer.startsWith(normalized2) ||
-      normalized2.startsWith(normalizedAnswer);
-    const isForbiddenCategoryEcho =
-      normalizedAnswer === normalized1 ||
-      normalizedAnswer === normalized2 ||
-      (sharesPrefix1 && lengthDiff1 <= 2) ||
-      (sharesPrefix2 && lengthDiff2 <= 2);
-    if (isForbiddenCategoryEcho) {
-      setError("You can't just submit the category as your guess.");
-      return;
-    }
 
-    // Block exact duplicate answers in this game
     const priorAnswers = state.guesses
       .slice(0, roundIndex)
       .filter((g) => !g.isPass)
-      .map((g) => g.noun.trim().toLowerCase())
+      .map((g) => g.noun)
       .filter(Boolean);
-    if (priorAnswers.includes(trimmed.toLowerCase())) {
-      setError("You've already used that answer. Try a new one.");
+    const validation = validateAnswer(currentInput, state.adjectives, priorAnswers);
+    if (!validation.ok) {
+      setError(describeRejection(validation.rejection));
       return;
     }
+    const trimmed = validation.answer;
 
-    setError(null);
-    setSubmitting(true);
+    if (!puzzleRef) return;
 
-    try {
-      const previousNouns = state.guesses
-        .slice(0, roundIndex)
-        .map((g) => g.noun)
-        .filter(Boolean);
+    // Another tab may be scoring (or have scored) this round already
+    if (!claimRound(roundIndex)) {
+      setError("This round is being played in another tab.");
+      return;
+    }
+    setError(null);
+    dispatchPhase({ type: "submit" });
+
+    const request = {
+      puzzle: puzzleRef,
+      noun: trimmed,
+      previousNouns: priorAnswers,
+      placeholderCategory,
+      persona: state.persona,
+      panel: state.panelMode,
+    };
 
-      const res = await fetch("/api/score", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          adjective1,
-          adjective2,
-          noun: trimmed,
-          previousNouns,
-          placeholderCategory,
-        }),
-      });
+    // Stream the commentary: as soon as the scores are in, the guess shows
+    // on the scoreboard while the reasonings type out. It's only recorded
+    // once the verdict is final.
+    setLiveVerdict(null);
+    const outcome = await requestScore(request, {
+      onScores: (scores) => {
+        const blank = state.adjectives.map(() => "");
+        setLiveVerdict({ roundIndex, noun: trimmed, scores, reasonings: blank, streaming: true });
+      },
+      onReasoning: (index, delta) => appendLiveReasoning(roundIndex, index, delta),
+    });
 
-      if (!res.ok) {
-        throw new Error("Scoring failed");
-      }
+    // The server's copy of the answer checks disagreed with ours; nothing
+    // was scored, so let the player fix the answer instead of burning the round.
+    if (outcome.kind === "rejected") {
+      setLiveVerdict(null);
+      dispatchPhase({ type: "answer-rejected" });
+      setError(describeRejection(outcome.rejection));
+      return;
+    }
 
-      const data = (await res.json()) as ScoreResponse;
-      submitGuessLocally(roundIndex, trimmed);
-      if (typeof data.score1 === "number" && typeof data.score2 === "number") {
-        applyScore(
-          roundIndex,
-          [data.score1, data.score2],
-          [data.reasoning1 || "", data.reasoning2 || ""],
-        );
-        
-        // Update previous scores after a delay to allow state to update
-        setTimeout(() => {
-          const [newScore1, newScore2] = getCumulativeScoresForAnimation();
-          prevCumulativeScoresRef.current = [newScore1, newScore2];
-        }, 100);
-      }
+    // Record the guess either way so the game can progress
+    submitGuessLocally(roundIndex, trimmed);
+    if (outcome.kind === "scored") {
+      const { data } = outcome;
+      const reasonings = state.adjectives.map((_, i) => data.reasonings?.[i] || "");
+      applyScore(roundIndex, data.scores, reasonings, data.receipt, data.panel);
+      // Hand the final text to the typewriter; it picks up where the stream left off
+      setLiveVerdict({ roundIndex, reasonings, streaming: false });
+      // The pillars get a moment to fill before the next round (or the end screen)
+      dispatchPhase({ type: "scored", at: Date.now() });
+      return;
+    }
 
-      if (roundIndex < 2) {
-        advanceTurn();
-      } else {
-        // Last guess - auto-advance to completion after scoring
-        setTimeout(() => {
-          advanceTurn();
-        }, 500); // Small delay to let score animation play
-      }
-    } catch (e) {
-      console.error(e);
-      // Still record the guess locally so the game can progress
-      submitGuessLocally(roundIndex, trimmed);
-      if (roundIndex < 2) {
-        advanceTurn();
-      } else {
-        // Last guess - auto-advance to completion after scoring
-        setTimeout(() => {
-          advanceTurn();
-        }, 500); // Small delay to let score animation play
-      }
+    // Whatever streamed in before the failure doesn't count
+    setLiveVerdict(null);
+    if (outcome.kind === "expired") {
+      giveUpScoring(roundIndex);
+      setError("This puzzle is no longer open for scoring, so that guess counts as zero.");
+    } else {
+      enqueueScoring({ roundIndex, ...request });
       setError(
-        "We couldn't score that guess right now. Your entry is saved; you can keep playing while we retry later.",
+        outcome.invalidVerdict
+          ? "The judge couldn't reach a verdict on that guess. Your entry is saved and we'll keep retrying while you play."
+          : "We couldn't score that guess right now. Your entry is saved and we'll keep retrying while you play.",
       );
-    } finally {
-      setSubmitting(false);
     }
+    dispatchPhase({ type: "not-scored" });
+  };
+
+  const handleShare = async (withBest: boolean) => {
+    if (!state) return;
+    const text = buildShareText(state, shareUrlFor(state, window.location.origin, withBest), isFinal);
+    const outcome = await shareResult(text);
+    if (outcome === "cancelled" || outcome === "shared") return;
+    setShareStatus(outcome === "copied" ? "Copied to clipboard!" : "Couldn't share. Try again?");
+    setTimeout(() => setShareStatus(null), 2500);
+  };
+
+  const handleChallenge = async () => {
+    if (!state) return;
+    const link = `${window.location.origin}/c/${encodeChallenge(challengeFromState(state, challengeWithAnswers))}`;
+    const score = gameScore?.grade.label ?? gradeFor([], state.rules).label;
+    const text = `Off the Charts: beat my ${score} on ${formatAdjectives(state.adjectives)}?\n${link}`;
+    const outcome = await shareResult(text);
+    if (outcome === "cancelled" || outcome === "shared") return;
+    setShareStatus(outcome === "copied" ? "Challenge link copied!" : "Couldn't share. Try again?");
+    setTimeout(() => setShareStatus(null), 2500);
   };
 
   const openAppeal = (roundIndex: number) => {
-    setAppealOpenFor(roundIndex);
+    dispatchPhase({ type: "open-appeal", roundIndex });
     setAppealText("");
     setAppealError(null);
   };
 
   const cancelAppeal = () => {
-    setAppealOpenFor(null);
+    dispatchPhase({ type: "close-appeal" });
     setAppealText("");
     setAppealError(null);
   };
 
   const submitAppeal = async () => {
-    if (!state || appealOpenFor === null) return;
+    if (!state || appealOpenFor === null || appealSubmitting) return;
     const roundIndex = appealOpenFor;
     const guess = state.guesses[roundIndex];
     if (!guess || guess.appealed || !guess.scores) return;
+    if (!guess.receipt) {
+      setAppealError("This guess was scored before appeals needed a verdict receipt, so it can't be appealed.");
+      return;
+    }
 
     const trimmed = appealText.trim();
     if (!trimmed) {
@@ -368,239 +439,113 @@ export function Game() {
       return;
     }
 
-    setAppealSubmitting(true);
+    dispatchPhase({ type: "send-appeal" });
     setAppealError(null);
 
     try {
-      const [adjective1, adjective2] = state.adjectives;
       const res = await fetch("/api/appeal", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: JUDGE_STREAM_CONTENT_TYPE },
         body: JSON.stringify({
-          adjective1,
-          adjective2,
-          noun: guess.noun,
-          originalScore1: guess.scores[0],
-          originalScore2: guess.scores[1],
-          originalReasoning: guess.reasonings ? `${guess.reasonings[0] || ""} | ${guess.reasonings[1] || ""}` : "",
+          receipt: guess.receipt,
+          persona: state.persona,
+          originalReasoning: guess.reasonings ? guess.reasonings.map((r) => r || "").join(" | ") : "",
           appealText: trimmed,
         }),
       });
 
       if (!res.ok) {
-        throw new Error("Appeal failed");
+        const body = (await res.json().catch(() => ({}))) as JudgeErrorResponse;
+        throw new Error(body.code === "invalid_verdict" ? "invalid_verdict" : "Appeal failed");
       }
 
-      const data = (await res.json()) as AppealResponse;
-      const newScores: [number, number] = [
-        typeof data.newScore1 === "number" && data.newScore1 > 0
-          ? data.newScore1
-          : guess.scores[0],
-        typeof data.newScore2 === "number" && data.newScore2 > 0
-          ? data.newScore2
-          : guess.scores[1],
-      ];
-      const newReasonings: [string, string] = [
-        data.reasoning1 || guess.reasonings?.[0] || "",
-        data.reasoning2 || guess.reasonings?.[1] || "",
-      ];
-
-      const accepted = data.accepted ?? 
-        (newScores[0] > guess.scores[0] || 
-        newScores[1] > guess.scores[1]);
+      // The booth's new scores close the modal; the commentary types out in
+      // the guess row. The game state is only updated once the verdict is final.
+      const streamed = await readJudgeStream<AppealResponse>(res, {
+        onScores: (scores) => {
+          dispatchPhase({ type: "appeal-verdict" });
+          setLiveVerdict({ roundIndex, scores, reasonings: state.adjectives.map(() => ""), streaming: true });
+        },
+        onReasoning: (index, delta) => appendLiveReasoning(roundIndex, index, delta),
+      });
+      if (!streamed.ok) {
+        throw new Error(streamed.body.code === "invalid_verdict" ? "invalid_verdict" : "Appeal failed");
+      }
+
+      const data = streamed.result;
+      const previousScores = guess.scores;
+      const newScores = previousScores.map((score, i) => {
+        const revised = data.newScores?.[i];
+        return typeof revised === "number" && revised > 0 ? revised : score;
+      });
+      const newReasonings = previousScores.map(
+        (_, i) => data.reasonings?.[i] || guess.reasonings?.[i] || "",
+      );
+
+      const accepted = data.accepted ??
+        newScores.some((score, i) => score > previousScores[i]);
 
       applyAppealResult(
         roundIndex,
         newScores,
         newReasonings,
         !accepted,
+        data.receipt,
       );
-      setAppealOpenFor(null);
+      setLiveVerdict({ roundIndex, reasonings: newReasonings, streaming: false });
+      dispatchPhase({ type: "appeal-decided" });
       setAppealText("");
     } catch (e) {
       console.error(e);
-      setAppealError("Appeal could not be processed. Try again later.");
-    } finally {
-      setAppealSubmitting(false);
-    }
-  };
-
-  // Calculate cumulative scores (sum of all guesses) - must be before early return
-  const getCumulativeScores = (): [number, number] => {
-    if (!state) return [0, 0];
-    let total1 = 0;
-    let total2 = 0;
-    state.guesses.forEach((guess) => {
-      if (guess.scores && !guess.isPass) {
-        total1 += guess.scores[0];
-        total2 += guess.scores[1];
-      }
-    });
-    return [total1, total2];
-  };
-
-  const [cumulativeScore1, cumulativeScore2] = getCumulativeScores();
-
-  // Calculate filled segments for each adjective
-  const getFilledSegments = (score: number): number => {
-    return Math.min(5, Math.floor(Math.min(score, 25) / 5));
-  };
-
-  const filledSegments1 = getFilledSegments(cumulativeScore1);
-  const filledSegments2 = getFilledSegments(cumulativeScore2);
-
-  // Calculate top bar score based on confirmed segments (only what particles have reached)
-  // For final score, use actual filled segments if game is complete and no particles are active
-  const getTopBarScore = (): number => {
-    if (isComplete && activeParticles.length === 0) {
-      // Game is complete and all particles have finished - use actual filled segments
-      return filledSegments1 + filledSegments2;
+      // Reopen the modal if the stream had already closed it
+      setLiveVerdict(null);
+      dispatchPhase({ type: "appeal-failed" });
+      setAppealError(
+        e instanceof Error && e.message === "invalid_verdict"
+          ? "The judge couldn't reach a verdict. Your appeal wasn't used; try again."
+          : "Appeal could not be processed. Try again later.",
+      );
     }
-    // During gameplay, only count confirmed segments
-    return pendingTopBarUpdates.size;
   };
 
-  const topBarScore = getTopBarScore();
-
-  const readPillarGeom = useCallback((container: HTMLDivElement): PillarClipGeom | null => {
-    const segEls = Array.from(
-      container.querySelectorAll<HTMLElement>("[data-pillar-segment]")
-    );
-    if (segEls.length !== 5) return null;
-
-    const w = container.clientWidth;
-    const h = container.clientHeight;
-    if (w <= 0 || h <= 0) return null;
-
-    const rootFontPx =
-      parseFloat(window.getComputedStyle(document.documentElement).fontSize || "16") ||
-      16;
-    const toPx = (v: string): number => {
-      const s = (v || "").trim();
-      if (!s) return 0;
-      if (s.endsWith("px")) return parseFloat(s) || 0;
-      if (s.endsWith("rem")) return (parseFloat(s) || 0) * rootFontPx;
-      return parseFloat(s) || 0;
-    };
-
-    const rects = segEls.map((el) => {
-      const cs = window.getComputedStyle(el);
-      const r = toPx(cs.borderTopLeftRadius || "0");
-      return {
-        x: el.offsetLeft,
-        y: el.offsetTop,
-        w: el.offsetWidth,
-        h: el.offsetHeight,
-        r,
-      };
-    });
-
-    return { w, h, rects };
-  }, []);
-
-  // Measure exact segment geometry (including gaps + rounded corners) for hard clipping
-  useLayoutEffect(() => {
-    const container = leftSegmentContainerRef.current;
-    if (!container) {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/1abfa7d3-0a13-47b3-bdfa-64763366f0c4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix-1',hypothesisId:'H1',location:'src/components/Game.tsx:left useLayoutEffect',message:'leftSegmentContainerRef missing (no geometry measurement possible)',data:{hasState:!!state},timestamp:Date.now()})}).catch(()=>{});
-      // #endregion
-      return;
-    }
-
-    let raf = 0;
-    const update = () => {
-      cancelAnimationFrame(raf);
-      raf = requestAnimationFrame(() => {
-        const geom = readPillarGeom(container);
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/1abfa7d3-0a13-47b3-bdfa-64763366f0c4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix-1',hypothesisId:'H2',location:'src/components/Game.tsx:left update()',message:'measured left pillar geom',data:{clientW:container.clientWidth,clientH:container.clientHeight,segCount:container.querySelectorAll('[data-pillar-segment]').length,geomW:geom?.w ?? null,geomH:geom?.h ?? null,rectCount:geom?.rects?.length ?? null,firstRect:geom?.rects?.[0] ?? null},timestamp:Date.now()})}).catch(()=>{});
-        // #endregion
-        if (geom) setLeftPillarGeom(geom);
-      });
-    };
-
-    update();
-    const ro = new ResizeObserver(update);
-    ro.observe(container);
-
-    return () => {
-      cancelAnimationFrame(raf);
-      ro.disconnect();
-    };
-  }, [readPillarGeom, pillarMeasureKey, state]);
-
-  useLayoutEffect(() => {
-    const container = rightSegmentContainerRef.current;
-    if (!container) {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/1abfa7d3-0a13-47b3-bdfa-64763366f0c4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix-1',hypothesisId:'H1',location:'src/components/Game.tsx:right useLayoutEffect',message:'rightSegmentContainerRef missing (no geometry measurement possible)',data:{hasState:!!state},timestamp:Date.now()})}).catch(()=>{});
-      // #endregion
-      return;
-    }
-
-    let raf = 0;
-    const update = () => {
-      cancelAnimationFrame(raf);
-      raf = requestAnimationFrame(() => {
-        const geom = readPillarGeom(container);
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/1abfa7d3-0a13-47b3-bdfa-64763366f0c4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix-1',hypothesisId:'H2',location:'src/components/Game.tsx:right update()',message:'measured right pillar geom',data:{clientW:container.clientWidth,clientH:container.clientHeight,segCount:container.querySelectorAll('[data-pillar-segment]').length,geomW:geom?.w ?? null,geomH:geom?.h ?? null,rectCount:geom?.rects?.length ?? null,firstRect:geom?.rects?.[0] ?? null},timestamp:Date.now()})}).catch(()=>{});
-        // #endregion
-        if (geom) setRightPillarGeom(geom);
-      });
-    };
-
-    update();
-    const ro = new ResizeObserver(update);
-    ro.observe(container);
-
-    return () => {
-      cancelAnimationFrame(raf);
-      ro.disconnect();
-    };
-  }, [readPillarGeom, pillarMeasureKey, state]);
-
-  useEffect(() => {
-    const leftContainer = leftSegmentContainerRef.current;
-    const rightContainer = rightSegmentContainerRef.current;
-
-    const leftSvg = leftContainer?.querySelector("svg");
-    const rightSvg = rightContainer?.querySelector("svg");
-
-    const leftSvgRect = leftSvg?.getBoundingClientRect();
-    const rightSvgRect = rightSvg?.getBoundingClientRect();
-
-    const raw1 = Math.min(cumulativeScore1, 25) / 25;
-    const raw2 = Math.min(cumulativeScore2, 25) / 25;
-    const scale1 = Number.isFinite(raw1) ? Math.max(0, Math.min(1, raw1)) : null;
-    const scale2 = Number.isFinite(raw2) ? Math.max(0, Math.min(1, raw2)) : null;
-
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/1abfa7d3-0a13-47b3-bdfa-64763366f0c4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix-1',hypothesisId:'H3',location:'src/components/Game.tsx:svg presence useEffect',message:'pillar svg overlay presence + sizes',data:{cum1:cumulativeScore1,cum2:cumulativeScore2,scale1,scale2,hasLeftGeom:!!leftPillarGeom,hasRightGeom:!!rightPillarGeom,leftGeom:leftPillarGeom?{w:leftPillarGeom.w,h:leftPillarGeom.h,rectCount:leftPillarGeom.rects.length}:null,rightGeom:rightPillarGeom?{w:rightPillarGeom.w,h:rightPillarGeom.h,rectCount:rightPillarGeom.rects.length}:null,hasLeftSvg:!!leftSvg,hasRightSvg:!!rightSvg,leftSvgRect:leftSvgRect?{w:leftSvgRect.width,h:leftSvgRect.height}:null,rightSvgRect:rightSvgRect?{w:rightSvgRect.width,h:rightSvgRect.height}:null},timestamp:Date.now()})}).catch(()=>{});
-    // #endregion
-  }, [cumulativeScore1, cumulativeScore2, leftPillarGeom, rightPillarGeom]);
+  // Derived from the game state alone, see src/lib/scoring.ts - must be before early return
+  const pillarScores = gameScore?.pillars ?? [];
+  const cumulativeScores = pillarScores.map((p) => p.points);
+  // Changes whenever any pillar does
+  const cumulativeScoresKey = cumulativeScores.join(",");
+  const filledSegments = pillarScores.map((p) => p.segments);
+  const pillarOverflow = pillarScores.map((p) => p.overflow);
+  const finalScore = gameScore?.grade.finalScore ?? 0;
+  const maxScore = gameScore?.grade.maxFinalScore ?? 0;
+  const totalOverflow = gameScore?.grade.overflow ?? 0;
 
   // Detect new segments and trigger particles - MUST be before early return
   useEffect(() => {
-    if (!state || !leftPillarRef.current || !rightPillarRef.current || !topBarRef.current) {
+    const pillarsReady = () => !!state && state.adjectives.every((_, p) => pillarRefs.current[p]);
+    const newFilled = filledSegments;
+    const newOverflow = pillarOverflow;
+    const syncPrevious = () => {
+      prevFilledSegmentsRef.current = newFilled;
+      prevOverflowRef.current = newOverflow;
+    };
+    if (!state || !pillarsReady() || !topBarRef.current) {
       // Update ref even if refs aren't ready to keep it in sync
-      const new1 = getFilledSegments(cumulativeScore1);
-      const new2 = getFilledSegments(cumulativeScore2);
-      prevFilledSegmentsRef.current = [new1, new2];
+      syncPrevious();
       return;
     }
     
-    const [prev1, prev2] = prevFilledSegmentsRef.current;
-    const new1 = getFilledSegments(cumulativeScore1);
-    const new2 = getFilledSegments(cumulativeScore2);
+    const prevFilled = prevFilledSegmentsRef.current;
+    const prevOverflow = prevOverflowRef.current;
 
-    if (new1 > prev1 || new2 > prev2) {
+    if (
+      newFilled.some((filled, p) => filled > (prevFilled[p] ?? 0)) ||
+      newOverflow.some((overflow, p) => overflow > (prevOverflow[p] ?? 0))
+    ) {
       // Wait a bit for DOM to update, then calculate positions
       const timeoutId = setTimeout(() => {
         // Double-check refs are still available
-        if (!leftPillarRef.current || !rightPillarRef.current || !topBarRef.current) {
-          prevFilledSegmentsRef.current = [new1, new2];
+        if (!pillarsReady() || !topBarRef.current) {
+          syncPrevious();
           return;
         }
         
@@ -608,20 +553,11 @@ export function Game() {
         particleTimeoutIdsRef.current.forEach(id => clearTimeout(id));
         particleTimeoutIdsRef.current = [];
         
-        const particlesToAdd: Array<{
-          id: string;
-          isPink: boolean;
-          segmentIndex: number;
-          startX: number;
-          startY: number;
-          endX: number;
-          endY: number;
-        }> = [];
+        const particlesToAdd: ActiveParticle[] = [];
 
         // Helper to get segment center position in pillar
-        const getPillarSegmentCenter = (pillarRef: React.RefObject<HTMLDivElement | null>, segmentIndex: number): { x: number; y: number } | null => {
-          if (!pillarRef.current) return null;
-          const pillar = pillarRef.current;
+        const getPillarSegmentCenter = (pillar: HTMLDivElement | null, segmentIndex: number): { x: number; y: number } | null => {
+          if (!pillar) return null;
           const segmentsContainer = pillar.firstElementChild as HTMLElement;
           if (!segmentsContainer) return null;
           const segments = segmentsContainer.querySelectorAll<HTMLElement>('[data-pillar-segment]');
@@ -655,39 +591,50 @@ export function Game() {
           };
         };
 
-        // Create particles for new segments in adjective1 (pink)
-        for (let i = prev1; i < new1; i++) {
-          const pillarPos = getPillarSegmentCenter(leftPillarRef, i);
-          const topBarPos = getTopBarSegmentCenter(i);
-          if (pillarPos && topBarPos) {
-            particlesToAdd.push({
-              id: `pink-${i}-${Date.now()}-${Math.random()}`,
-              isPink: true,
-              segmentIndex: i,
-              startX: pillarPos.x,
-              startY: pillarPos.y,
-              endX: topBarPos.x,
-              endY: topBarPos.y,
-            });
+        // Create particles for new segments, pillar by pillar
+        newFilled.forEach((filled, p) => {
+          for (let i = prevFilled[p] ?? 0; i < filled; i++) {
+            const pillarPos = getPillarSegmentCenter(pillarRefs.current[p], i);
+            const topBarIndex = p * segmentCount + i; // Each pillar's segments follow the previous pillar's
+            const topBarPos = getTopBarSegmentCenter(topBarIndex);
+            if (pillarPos && topBarPos) {
+              particlesToAdd.push({
+                id: `pillar${p}-${i}-${Date.now()}-${Math.random()}`,
+                pillarIndex: p,
+                segmentIndex: topBarIndex,
+                startX: pillarPos.x,
+                startY: pillarPos.y,
+                endX: topBarPos.x,
+                endY: topBarPos.y,
+              });
+            }
           }
-        }
+        });
 
-        // Create particles for new segments in adjective2 (cyan)
-        for (let i = prev2; i < new2; i++) {
-          const pillarPos = getPillarSegmentCenter(rightPillarRef, i);
-          const topBarPos = getTopBarSegmentCenter(i + 5); // Cyan segments are 5-9 in top bar
-          if (pillarPos && topBarPos) {
+        // Going past the cap sends a burst off the top of the pillar to the
+        // overflow badge (the top bar when it's hidden), one particle per
+        // segment's worth of extra points
+        const overflowTarget = overflowBadgeRef.current ?? topBarRef.current;
+        newOverflow.forEach((overflow, p) => {
+          const pillar = pillarRefs.current[p];
+          const gained = overflow - (prevOverflow[p] ?? 0);
+          if (!pillar || !overflowTarget || gained <= 0) return;
+          const pillarRect = pillar.getBoundingClientRect();
+          const targetRect = overflowTarget.getBoundingClientRect();
+          const count = Math.min(MAX_OVERFLOW_PARTICLES, Math.ceil(gained / rules.pointsPerSegment));
+          for (let i = 0; i < count; i++) {
             particlesToAdd.push({
-              id: `cyan-${i}-${Date.now()}-${Math.random()}`,
-              isPink: false,
-              segmentIndex: i + 5, // Store as top bar index
-              startX: pillarPos.x,
-              startY: pillarPos.y,
-              endX: topBarPos.x,
-              endY: topBarPos.y,
+              id: `overflow${p}-${i}-${Date.now()}-${Math.random()}`,
+              pillarIndex: p,
+              segmentIndex: -1,
+              overflow: true,
+              startX: pillarRect.left + pillarRect.width / 2,
+              startY: pillarRect.top + 8,
+              endX: targetRect.left + targetRect.width / 2,
+              endY: targetRect.top + targetRect.height / 2,
             });
           }
-        }
+        });
 
         // Add particles sequentially with delays (charge-up time + stagger)
         particlesToAdd.forEach((particle, index) => {
@@ -697,7 +644,7 @@ export function Game() {
           particleTimeoutIdsRef.current.push(particleTimeoutId);
         });
 
-        prevFilledSegmentsRef.current = [new1, new2];
+        syncPrevious();
       }, 100); // Small delay to ensure DOM has updated
 
       return () => {
@@ -708,9 +655,9 @@ export function Game() {
       };
     } else {
       // Update ref even if no new segments to keep it in sync
-      prevFilledSegmentsRef.current = [new1, new2];
+      syncPrevious();
     }
-  }, [cumulativeScore1, cumulativeScore2, state]);
+  }, [cumulativeScoresKey, state]);
 
   if (!isLoaded || !state || !currentTurn) {
     return (
@@ -726,34 +673,33 @@ export function Game() {
   }
 
   const { roundIndex } = currentTurn;
-  const [adjective1, adjective2] = state.adjectives;
 
   const previousGuesses = state.guesses
     // Include the current guess slot as \"previous\" once it has a noun,
     // so that after the 5th answer is scored it's visible during the
     // \"See results\" waiting state.
     .slice(0, roundIndex + 1)
+    // A guess whose verdict is still streaming in isn't recorded yet
+    .map((g, i) => (!g.noun && liveVerdict?.roundIndex === i && liveVerdict.noun ? { ...g, noun: liveVerdict.noun } : g))
     .filter((g) => g.noun);
 
   const currentGuess = state.guesses[roundIndex];
 
-  const getBestIndex = (guesses: GuessResult[]): number => {
-    const combinedScores = guesses.map((g) => {
-      if (!g.scores) return 0;
-      return g.scores[0] + g.scores[1];
-    });
-    const bestScore = Math.max(0, ...combinedScores);
-    if (bestScore <= 0) return -1;
-
-    const candidateIndices = combinedScores
-      .map((_, i) => i)
-      .filter((i) => combinedScores[i] === bestScore && !guesses[i].isPass);
-    if (candidateIndices.length === 0) return -1;
-
-    return candidateIndices[0];
-  };
-
-  const maxScore = 25; // Maximum cumulative score per adjective (capped at 25 for visualization)
+  const renderPillar = (p: number) => (
+    <ScorePillar
+      key={p}
+      pillarIndex={p}
+      points={cumulativeScores[p] ?? 0}
+      rules={rules}
+      narrow={pillarCount > 2}
+      measureKey={pillarMeasureKey}
+      activeParticles={activeParticles}
+      pendingTopBarUpdates={pendingTopBarUpdates}
+      pillarRef={(el) => {
+        pillarRefs.current[p] = el;
+      }}
+    />
+  );
 
   return (
     <div className="h-full flex flex-col relative">
@@ -784,33 +730,76 @@ export function Game() {
         <div className="flex items-center justify-between gap-4">
           <div className="flex-1 min-w-0">
             <div className="text-[0.6rem] tracking-[0.35em] uppercase text-otc-muted">
-              Tonight's game
+              {state.mode === "challenge"
+                ? "Challenge"
+                : state.mode === "archive"
+                  ? `Archive · ${formatDay(state.dateKey)}`
+                  : "Tonight's game"}
             </div>
             <div className="font-display text-xl sm:text-2xl text-otc-accent drop-shadow-[0_4px_10px_rgba(0,0,0,0.7)]">
               Off the Charts
             </div>
+            <div className="flex items-center gap-2">
+              <JudgePicker
+                value={state.persona}
+                onChange={setPersona}
+                panelMode={state.panelMode}
+                onPanelModeChange={setPanelMode}
+              />
+              <button
+                type="button"
+                onClick={() => setStatsOpen(true)}
+                className="mt-0.5 rounded-full border border-white/15 px-2 py-0.5 bg-black/30 hover:bg-black/50 transition text-[0.65rem] uppercase tracking-[0.1em] text-otc-muted"
+              >
+                Stats
+              </button>
+              {state.mode !== "challenge" && (
+                <button
+                  type="button"
+                  onClick={() => setArchiveOpen(true)}
+                  disabled={submitting}
+                  className="mt-0.5 rounded-full border border-white/15 px-2 py-0.5 bg-black/30 hover:bg-black/50 transition text-[0.65rem] uppercase tracking-[0.1em] text-otc-muted disabled:opacity-40"
+                >
+                  Archive
+                </button>
+              )}
+              {state.mode === "archive" && (
+                <button
+                  type="button"
+                  onClick={backToDaily}
+                  disabled={submitting}
+                  className="mt-0.5 rounded-full border border-otc-accent/50 px-2 py-0.5 bg-black/30 hover:bg-black/50 transition text-[0.65rem] uppercase tracking-[0.1em] text-otc-accent disabled:opacity-40"
+                >
+                  Today
+                </button>
+              )}
+            </div>
           </div>
 
-          {/* Top score bar: 10 thin vertical containers (5 pink, 5 cyan) - hidden on end screen */}
+          {/* Top score bar: a thin vertical container per segment, pillar by pillar - hidden on end screen */}
           {!isComplete && (
             <div className="flex-shrink-0 flex flex-col items-end gap-1">
               <div className="text-[0.65rem] text-otc-muted uppercase tracking-[0.1em]">Score</div>
               <div className="flex items-center gap-2">
-                <div className="text-[0.7rem] font-semibold text-otc-accent-alt">{topBarScore} / 10</div>
-                <div ref={topBarRef} className="flex items-center gap-0.5 w-32">
-                  {Array.from({ length: 10 }, (_, i) => {
-                    const isPink = i < 5;
+                <div className="text-[0.7rem] font-semibold text-otc-accent-alt">
+                  {finalScore} / {maxScore}
+                  {totalOverflow > 0 && (
+                    <span ref={overflowBadgeRef} className="ml-1 text-otc-accent" title="Points off the charts">
+                      +{totalOverflow}
+                    </span>
+                  )}
+                </div>
+                {/* 4rem per pillar, so segments keep their size however many pillars there are */}
+                <div ref={topBarRef} className="flex items-center gap-0.5" style={{ width: `${pillarCount * 4}rem` }}>
+                  {Array.from({ length: segmentCount * pillarCount }, (_, i) => {
+                    const colors = pillarColors(Math.floor(i / segmentCount));
                     const isFilled = pendingTopBarUpdates.has(i);
                     
                     return (
                       <div
                         key={i}
                         className={`flex-1 h-4 rounded-sm border transition-all duration-500 ${
-                          isFilled
-                            ? isPink
-                              ? 'bg-pink-400 border-pink-500 shadow-[0_0_4px_rgba(244,114,182,0.6)]'
-                              : 'bg-cyan-400 border-cyan-500 shadow-[0_0_4px_rgba(34,211,238,0.6)]'
-                            : 'bg-white/10 border-white/20'
+                          isFilled ? colors.topBar : 'bg-white/10 border-white/20'
                         }`}
                       />
                     );
@@ -822,6 +811,37 @@ export function Game() {
           {/* Keep ref for particles even when hidden */}
           {isComplete && <div ref={topBarRef} className="hidden" />}
         </div>
+        {state.challenge && !isComplete && (
+          <div className="mt-1.5 text-[0.7rem] text-otc-accent">
+            Your friend scored {challengeGrade(state.challenge).label}. Beat it!
+          </div>
+        )}
+        {newPuzzleOut && state.mode === "daily" && finishingKey !== state.dateKey && (
+          <div className="mt-1.5 flex flex-wrap items-center gap-2 rounded-xl border border-otc-accent/40 bg-black/40 px-3 py-1.5 text-[0.7rem] text-otc-accent">
+            <span className="flex-1 min-w-0">
+              {isComplete
+                ? "A new puzzle is out!"
+                : `A new puzzle is out. You can still finish ${formatDay(state.dateKey, { month: "short", day: "numeric" })}'s first.`}
+            </span>
+            {!isComplete && (
+              <button
+                type="button"
+                onClick={() => setFinishingKey(state.dateKey)}
+                className="rounded-full border border-white/15 px-2 py-0.5 bg-black/30 hover:bg-black/50 transition text-[0.65rem] text-otc-muted"
+              >
+                Finish this one
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={backToDaily}
+              disabled={submitting}
+              className="rounded-full border border-otc-accent/50 px-2 py-0.5 bg-black/30 hover:bg-black/50 transition text-[0.65rem] text-otc-accent disabled:opacity-40"
+            >
+              Play the new one
+            </button>
+          </div>
+        )}
       </header>
 
 
@@ -835,10 +855,13 @@ export function Game() {
               Submit a word, phrase, person, or concept that is
             </div>
             <div className="mt-0.5 font-display text-xl sm:text-2xl drop-shadow-otc-glow text-center flex items-center justify-center">
-              <div className="flex items-center gap-1">
-                <span className="text-pink-400">{adjective1.toUpperCase()}</span>
-                <span style={{ color: 'rgb(255, 179, 21)' }}> & </span>
-                <span className="text-cyan-400">{adjective2.toUpperCase()}</span>
+              <div className="flex flex-wrap items-center justify-center gap-1">
+                {state.adjectives.map((adjective, i) => (
+                  <span key={adjective} className="flex items-center gap-1">
+                    {i > 0 && <span style={{ color: 'rgb(255, 179, 21)' }}> & </span>}
+                    <span className={pillarColors(i).text}>{adjective.toUpperCase()}</span>
+                  </span>
+                ))}
               </div>
             </div>
           </section>
@@ -849,14 +872,16 @@ export function Game() {
       {activeParticles.map(particle => {
         const handleParticleComplete = () => {
           setActiveParticles(prev => prev.filter(p => p.id !== particle.id));
-          setPendingTopBarUpdates(prev => new Set([...prev, particle.segmentIndex]));
+          if (!particle.overflow) {
+            setPendingTopBarUpdates(prev => new Set([...prev, particle.segmentIndex]));
+          }
         };
         
         return (
           <Particle
             key={particle.id}
             id={particle.id}
-            isPink={particle.isPink}
+            color={`rgb(${pillarColors(particle.pillarIndex).rgb})`}
             startX={particle.startX}
             startY={particle.startY}
             endX={particle.endX}
@@ -872,97 +897,8 @@ export function Game() {
         <div className="flex-1 flex flex-col rounded-xl border overflow-hidden min-h-0" style={{ borderColor: 'rgba(255, 255, 255, 0.2)' }}>
           {/* Top Row: Pillars + Scoreboard */}
           <div className="flex-1 flex items-stretch gap-0 min-h-0">
-          {/* Left Pillar */}
-          <div ref={leftPillarRef} className="w-10 flex-shrink-0 pt-2 overflow-hidden bg-otc-bg-soft/80 relative">
-            {/* Segment containers */}
-            <div ref={leftSegmentContainerRef} className="h-full flex flex-col-reverse gap-1 px-1.5 relative">
-              {/* SVG overlay: renders the fill and clips it to the exact 5 rounded segments (Firefox-safe) */}
-              {leftPillarGeom && (
-                <svg
-                  className="absolute inset-0 pointer-events-none"
-                  style={{ zIndex: 0 }}
-                  width="100%"
-                  height="100%"
-                  viewBox={`0 0 ${leftPillarGeom.w} ${leftPillarGeom.h}`}
-                  preserveAspectRatio="none"
-                  aria-hidden="true"
-                >
-                  <defs>
-                    <clipPath id={leftClipId} clipPathUnits="userSpaceOnUse">
-                      {leftPillarGeom.rects.map((r, idx) => (
-                        <rect
-                          key={idx}
-                          x={r.x}
-                          y={r.y}
-                          width={r.w}
-                          height={r.h}
-                          rx={r.r}
-                          ry={r.r}
-                        />
-                      ))}
-                    </clipPath>
-                  </defs>
-                  <g clipPath={`url(#${leftClipId})`}>
-                    {/* base */}
-                    <rect x="0" y="0" width={leftPillarGeom.w} height={leftPillarGeom.h} fill="rgba(0,0,0,0.30)" />
-                    {/* fill */}
-                    {(() => {
-                      const raw = Math.min(cumulativeScore1, 25) / 25;
-                      const scale = Number.isFinite(raw) ? Math.max(0, Math.min(1, raw)) : 0;
-                      return (
-                        <g
-                          style={{
-                            // Firefox is finicky about SVG transform-origin/transform-box.
-                            // This translate/scale/translate pins the scale to the bottom in user units.
-                            transform: `translate(0px, ${leftPillarGeom.h}px) scale(1, ${scale}) translate(0px, ${-leftPillarGeom.h}px)`,
-                            transition: "transform 0.5s linear",
-                          }}
-                        >
-                          <rect
-                            x="0"
-                            y="0"
-                            width={leftPillarGeom.w}
-                            height={leftPillarGeom.h}
-                            fill="rgb(244, 114, 182)"
-                          />
-                        </g>
-                      );
-                    })()}
-                  </g>
-                </svg>
-              )}
-
-              {Array.from({ length: 5 }, (_, i) => {
-                const segmentThreshold = (i + 1) * 5; // Segment 0 = 5pts, segment 4 = 25pts
-                const cappedScore = Math.min(cumulativeScore1, 25);
-                const isMilestoneReached = cappedScore >= segmentThreshold;
-                // Check if this segment has reached milestone but particle hasn't been confirmed yet
-                const hasActiveParticle = activeParticles.some(p => p.isPink && p.segmentIndex === i);
-                const isConfirmed = pendingTopBarUpdates.has(i);
-                const isCharging = isMilestoneReached && !isConfirmed && !hasActiveParticle && i < filledSegments1;
-                
-                return (
-                  <div
-                    key={i}
-                    data-pillar-segment
-                    className="w-full flex-1 rounded relative overflow-hidden border border-pink-400/30 bg-transparent z-10"
-                  >
-                    {/* Charging glow effect when segment reaches milestone */}
-                    {isCharging && (
-                      <div
-                        className="absolute inset-0 bg-pink-400 animate-pulse"
-                        style={{
-                          opacity: 0.3,
-                          boxShadow: '0 0 12px rgba(244,114,182,0.9), 0 0 20px rgba(244,114,182,0.6)',
-                          zIndex: 20,
-                        }}
-                      />
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          </div>
+          {/* Left Pillars */}
+          {state.adjectives.slice(0, leftPillarCount).map((_, p) => renderPillar(p))}
 
           {/* Middle Content Area - Scrollable */}
           <div className="flex-1 flex flex-col min-w-0 min-h-0">
@@ -976,9 +912,8 @@ export function Game() {
                     {previousGuesses.length > 0 ? (
                   <div className="space-y-1.5">
                     {(() => {
-                      const bestIndex = getBestIndex(state.guesses);
+                      const bestIndex = gameScore?.bestRoundIndex ?? -1;
                       return previousGuesses.map((g, idx) => {
-                        const combinedScore = g.scores ? g.scores[0] + g.scores[1] : 0;
                         return (
                           <PreviousGuessRow
                             key={idx}
@@ -986,15 +921,11 @@ export function Game() {
                             guess={g}
                             roundIndex={idx}
                             adjectives={state.adjectives}
+                            live={liveVerdict?.roundIndex === idx ? liveVerdict : undefined}
                             onAppeal={openAppeal}
                             appealsRemaining={0}
                             canAppealNow={false}
-                            isBest={
-                              previousGuesses.length >= 2 &&
-                              bestIndex === idx &&
-                              combinedScore > 0 &&
-                              !g.isPass
-                            }
+                            isBest={previousGuesses.length >= 2 && bestIndex === idx}
                           />
                         );
                       });
@@ -1014,26 +945,27 @@ export function Game() {
                   {/* Complete State - Final Score Display */}
                   <section className="rounded-2xl bg-black/30 border border-otc-accent/40 px-4 py-3 space-y-3">
                     <div className="text-[0.7rem] tracking-[0.2em] uppercase text-otc-muted text-center">
-                      Final Score
+                      {isFinal ? "Final Score" : "Provisional Score"}
                     </div>
                     <div className="flex flex-col items-center gap-3">
                       <div className="text-4xl sm:text-5xl font-bold text-otc-accent-alt">
-                        {topBarScore} / 10
+                        {finalScore} / {maxScore}
                       </div>
+                      {totalOverflow > 0 && (
+                        <div className="-mt-2 text-sm font-semibold text-otc-accent animate-pulse">
+                          +{totalOverflow} off the charts
+                        </div>
+                      )}
                       <div className="flex items-center justify-center gap-0.5 w-full max-w-xs">
-                        {Array.from({ length: 10 }, (_, i) => {
-                          const isPink = i < 5;
-                          const isFilled = pendingTopBarUpdates.has(i) || (isComplete && activeParticles.length === 0 && (isPink ? i < filledSegments1 : i - 5 < filledSegments2));
+                        {Array.from({ length: segmentCount * pillarCount }, (_, i) => {
+                          const pillar = Math.floor(i / segmentCount);
+                          const isFilled = pendingTopBarUpdates.has(i) || (isComplete && activeParticles.length === 0 && i % segmentCount < filledSegments[pillar]);
                           
                           return (
                             <div
                               key={i}
                               className={`flex-1 h-6 rounded-sm border transition-all duration-500 ${
-                                isFilled
-                                  ? isPink
-                                    ? 'bg-pink-400 border-pink-500 shadow-[0_0_4px_rgba(244,114,182,0.6)]'
-                                    : 'bg-cyan-400 border-cyan-500 shadow-[0_0_4px_rgba(34,211,238,0.6)]'
-                                  : 'bg-white/10 border-white/20'
+                                isFilled ? pillarColors(pillar).topBar : 'bg-white/10 border-white/20'
                               }`}
                             />
                           );
@@ -1044,8 +976,102 @@ export function Game() {
                       That's a wrap! Scroll down to review the game and appeal your most
                       underrated answer.
                     </div>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleShare(false)}
+                        className="rounded-full bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt px-3 py-1 text-[0.7rem] font-semibold text-black shadow-otc-glow"
+                      >
+                        Share result
+                      </button>
+                      {isFinal && gameScore && gameScore.bestRoundIndex >= 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleShare(true)}
+                          title="The card shows your best answer, so it spoils the puzzle"
+                          className="rounded-full border border-otc-accent-alt/60 px-3 py-1 text-[0.7rem] text-otc-accent-alt bg-black/40 hover:bg-black/60 transition"
+                        >
+                          Share with best answer
+                        </button>
+                      )}
+                      {isFinal && state.mode === "daily" && (
+                        <button
+                          type="button"
+                          onClick={() => setStatsOpen(true)}
+                          className="rounded-full border border-otc-accent-alt/60 px-3 py-1 text-[0.7rem] text-otc-accent-alt bg-black/40 hover:bg-black/60 transition"
+                        >
+                          {stats.currentStreak > 1
+                            ? `${stats.currentStreak}-day streak · See your stats`
+                            : "See your stats"}
+                        </button>
+                      )}
+                    </div>
+                    {state.mode !== "challenge" && (
+                      <div className="flex flex-wrap items-center justify-center gap-2">
+                        <button
+                          type="button"
+                          onClick={handleChallenge}
+                          className="rounded-full border border-otc-accent/60 px-3 py-1 text-[0.7rem] text-otc-accent bg-black/40 hover:bg-black/60 transition"
+                        >
+                          Challenge a friend
+                        </button>
+                        <label className="flex items-center gap-1 text-[0.65rem] text-otc-muted">
+                          <input
+                            type="checkbox"
+                            checked={challengeWithAnswers}
+                            onChange={(e) => setChallengeWithAnswers(e.target.checked)}
+                          />
+                          Include my answers
+                        </label>
+                      </div>
+                    )}
+                    {shareStatus && (
+                      <div className="text-[0.7rem] text-center text-otc-muted">{shareStatus}</div>
+                    )}
+                    {state.mode === "daily" && !newPuzzleOut && <NextPuzzleCountdown />}
                   </section>
 
+                  {gameScore && (
+                    <ScoreBreakdown score={gameScore} adjectives={state.adjectives} rules={rules} />
+                  )}
+
+                  {state.challenge && gameScore && (
+                    <ChallengeComparison
+                      challenge={state.challenge}
+                      guesses={state.guesses}
+                      score={gameScore}
+                      isFinal={isFinal}
+                    />
+                  )}
+
+                  {/* Complete State - Guesses still waiting on the judge */}
+                  {pendingScoringCount > 0 && (
+                    <section className="rounded-2xl bg-black/30 border border-white/15 px-4 py-3 space-y-2">
+                      <div className="text-[0.8rem] sm:text-sm font-semibold text-center text-otc-text">
+                        Still waiting on the judge for {pendingScoringCount}{" "}
+                        {pendingScoringCount === 1 ? "guess" : "guesses"}. Your score isn't final yet.
+                      </div>
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          type="button"
+                          onClick={retryScoringNow}
+                          className="rounded-full bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt px-3 py-1 text-[0.7rem] font-semibold text-black shadow-otc-glow"
+                        >
+                          Retry now
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            state.scoringQueue.forEach((p) => giveUpScoring(p.roundIndex));
+                          }}
+                          className="rounded-full border border-white/20 px-3 py-1 text-[0.7rem] text-otc-muted bg-black/40 hover:bg-black/60 transition"
+                        >
+                          Count them as zero
+                        </button>
+                      </div>
+                    </section>
+                  )}
+
                   {/* Complete State - Appeals Section */}
                   <section className="rounded-2xl bg-otc-bg-soft/90 border border-white/10 px-4 py-3 space-y-2">
                     <div className="flex items-center justify-between gap-2">
@@ -1065,14 +1091,12 @@ export function Game() {
                         <div className="flex items-center justify-between gap-2">
                           <div className="flex items-center gap-2">
                             <span className="font-display text-base text-otc-accent">
-                              {adjective1.toUpperCase()} & {adjective2.toUpperCase()}
+                              {formatAdjectives(state.adjectives).toUpperCase()}
                             </span>
                           </div>
                         </div>
                         <div className="mt-1 grid grid-cols-1 gap-1.5">
                           {state.guesses.map((g, ri) => {
-                            const combinedScore = g.scores ? g.scores[0] + g.scores[1] : 0;
-                            const bestIndex = getBestIndex(state.guesses);
                             return (
                               <PreviousGuessRow
                                 key={ri}
@@ -1080,12 +1104,11 @@ export function Game() {
                                 guess={g}
                                 roundIndex={ri}
                                 adjectives={state.adjectives}
+                                live={liveVerdict?.roundIndex === ri ? liveVerdict : undefined}
                                 onAppeal={openAppeal}
                                 appealsRemaining={state.appealsRemaining}
                                 canAppealNow={isComplete}
-                                isBest={
-                                  ri === bestIndex && combinedScore > 0 && !g.isPass
-                                }
+                                isBest={ri === gameScore?.bestRoundIndex}
                               />
                             );
                           })}
@@ -1098,113 +1121,22 @@ export function Game() {
             </div>
           </div>
 
-          {/* Right Pillar */}
-          <div ref={rightPillarRef} className="w-10 flex-shrink-0 pt-2 overflow-hidden bg-otc-bg-soft/80 relative">
-            {/* Segment containers */}
-            <div ref={rightSegmentContainerRef} className="h-full flex flex-col-reverse gap-1 px-1.5 relative">
-              {/* SVG overlay: renders the fill and clips it to the exact 5 rounded segments (Firefox-safe) */}
-              {rightPillarGeom && (
-                <svg
-                  className="absolute inset-0 pointer-events-none"
-                  style={{ zIndex: 0 }}
-                  width="100%"
-                  height="100%"
-                  viewBox={`0 0 ${rightPillarGeom.w} ${rightPillarGeom.h}`}
-                  preserveAspectRatio="none"
-                  aria-hidden="true"
-                >
-                  <defs>
-                    <clipPath id={rightClipId} clipPathUnits="userSpaceOnUse">
-                      {rightPillarGeom.rects.map((r, idx) => (
-                        <rect
-                          key={idx}
-                          x={r.x}
-                          y={r.y}
-                          width={r.w}
-                          height={r.h}
-                          rx={r.r}
-                          ry={r.r}
-                        />
-                      ))}
-                    </clipPath>
-                  </defs>
-                  <g clipPath={`url(#${rightClipId})`}>
-                    {/* base */}
-                    <rect x="0" y="0" width={rightPillarGeom.w} height={rightPillarGeom.h} fill="rgba(0,0,0,0.30)" />
-                    {/* fill */}
-                    {(() => {
-                      const raw = Math.min(cumulativeScore2, 25) / 25;
-                      const scale = Number.isFinite(raw) ? Math.max(0, Math.min(1, raw)) : 0;
-                      return (
-                        <g
-                          style={{
-                            transform: `translate(0px, ${rightPillarGeom.h}px) scale(1, ${scale}) translate(0px, ${-rightPillarGeom.h}px)`,
-                            transition: "transform 0.5s linear",
-                          }}
-                        >
-                          <rect
-                            x="0"
-                            y="0"
-                            width={rightPillarGeom.w}
-                            height={rightPillarGeom.h}
-                            fill="rgb(34, 211, 238)"
-                          />
-                        </g>
-                      );
-                    })()}
-                  </g>
-                </svg>
-              )}
-
-              {Array.from({ length: 5 }, (_, i) => {
-                const segmentThreshold = (i + 1) * 5; // Segment 0 = 5pts, segment 4 = 25pts
-                const cappedScore = Math.min(cumulativeScore2, 25);
-                const isMilestoneReached = cappedScore >= segmentThreshold;
-                // Check if this segment has reached milestone but particle hasn't been confirmed yet
-                const topBarIndex = i + 5; // Cyan segments are 5-9 in top bar
-                const hasActiveParticle = activeParticles.some(p => !p.isPink && p.segmentIndex === topBarIndex);
-                const isConfirmed = pendingTopBarUpdates.has(topBarIndex);
-                const isCharging = isMilestoneReached && !isConfirmed && !hasActiveParticle && i < filledSegments2;
-                
-                return (
-                  <div
-                    key={i}
-                    data-pillar-segment
-                    className="w-full flex-1 rounded relative overflow-hidden border border-cyan-400/30 bg-transparent z-10"
-                  >
-                    {/* Charging glow effect when segment reaches milestone */}
-                    {isCharging && (
-                      <div
-                        className="absolute inset-0 bg-cyan-400 animate-pulse"
-                        style={{
-                          opacity: 0.3,
-                          boxShadow: '0 0 12px rgba(34,211,238,0.9), 0 0 20px rgba(34,211,238,0.6)',
-                          zIndex: 20,
-                        }}
-                      />
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          </div>
+          {/* Right Pillars */}
+          {state.adjectives.slice(leftPillarCount).map((_, i) => renderPillar(leftPillarCount + i))}
         </div>
 
         {/* Bottom Row: Input Container - Full Width */}
         {!isComplete && (
           <div className="flex-shrink-0">
-            {awaitingNextCategory && roundIndex < 2 ? (
+            {awaitingNextCategory ? (
               <button
                 type="button"
-                onClick={() => {
-                  setAwaitingNextCategory(false);
-                  advanceTurn();
-                }}
+                onClick={() => dispatchPhase({ type: "continue" })}
                 className="w-full inline-flex items-center justify-center rounded-full bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt px-4 py-2 text-sm font-semibold text-black shadow-otc-glow"
               >
-                Continue
+                {roundIndex < state.rules.rounds - 1 ? "Continue" : "See results"}
               </button>
-            ) : !awaitingNextCategory ? (
+            ) : (
               <section className="bg-otc-bg-soft/80 px-3 py-2 flex flex-col gap-2">
                   <div className="space-y-1">
                     {/* Visually hide the label but keep it for screen readers */}
@@ -1228,10 +1160,10 @@ export function Game() {
                         // Real placeholder left blank; we render a custom preview layer instead
                         placeholder=""
                         className="w-full rounded-xl bg-black/40 border border-white/15 pl-3 pr-12 py-2 text-sm text-otc-text shadow-inner"
-                        maxLength={64}
-                        disabled={submitting}
+                        maxLength={MAX_ANSWER_LENGTH}
+                        disabled={!acceptingInput}
                       />
-                      {!currentInput && !submitting && (
+                      {!currentInput && acceptingInput && (
                         <div className="pointer-events-none absolute inset-y-0 left-3 right-3 flex items-center text-otc-muted overflow-hidden">
                           <div className="whitespace-nowrap overflow-hidden flex items-center" style={{ fontSize: 'clamp(0.7rem, 2.5vw, 0.875rem)' }}>
                             <span>{`Try a\u00a0`}</span>
@@ -1239,19 +1171,20 @@ export function Game() {
                               {placeholderCategory}
                             </span>
                             <span>{`\u00a0that feels\u00a0`}</span>
-                            <span className="font-semibold text-pink-400">
-                              {adjective1}
-                            </span>
-                            <span>{`\u00a0and\u00a0`}</span>
-                            <span className="font-semibold text-cyan-400">
-                              {adjective2}
-                            </span>
+                            {state.adjectives.map((adjective, i) => (
+                              <span key={adjective} className="flex items-center">
+                                {i > 0 && (
+                                  <span>{i === state.adjectives.length - 1 ? `\u00a0and\u00a0` : `,\u00a0`}</span>
+                                )}
+                                <span className={`font-semibold ${pillarColors(i).text}`}>{adjective}</span>
+                              </span>
+                            ))}
                           </div>
                         </div>
                       )}
                       {currentInput.length > 0 && (
                         <div className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-[0.7rem] text-otc-muted/70">
-                          {currentInput.length}/64
+                          {currentInput.length}/{MAX_ANSWER_LENGTH}
                         </div>
                       )}
                     </div>
@@ -1265,31 +1198,33 @@ export function Game() {
                     <button
                       type="button"
                       onClick={handleSubmitGuess}
-                      disabled={submitting || !currentInput.trim()}
+                      disabled={!acceptingInput || !currentInput.trim()}
                       className="inline-flex flex-1 items-center justify-center rounded-full bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt px-3.5 py-2 text-sm font-semibold text-black shadow-otc-glow disabled:opacity-60 disabled:cursor-not-allowed"
                     >
                       {submitting
                         ? "Scoring…"
-                      : `Submit for Judgement (${roundIndex + 1}/3)`}
+                        : phase?.kind === "revealing"
+                        ? "Judged!"
+                      : `Submit for Judgement (${roundIndex + 1}/${state.rules.rounds})`}
                     </button>
                     {previousGuesses.length > 0 && (
                       <button
                         type="button"
                         onClick={() => {
-                          if (!state || !currentTurn || submitting) return;
+                          if (!state || !currentTurn || !acceptingInput) return;
                           const { roundIndex } = currentTurn;
                           submitPassLocally(roundIndex);
-                          setAwaitingNextCategory(true);
+                          dispatchPhase({ type: "pass" });
                         }}
                         className="inline-flex items-center justify-center rounded-full border border-white/25 px-3 py-1.5 text-[0.7rem] font-semibold text-otc-muted bg-black/40 hover:bg-black/60 transition"
-                        disabled={submitting}
+                        disabled={!acceptingInput}
                       >
                         Pass
                       </button>
                     )}
                   </div>
             </section>
-              ) : null}
+              )}
                     </div>
                   )}
                 </div>
@@ -1308,6 +1243,221 @@ export function Game() {
           error={appealError}
         />
       )}
+
+      {statsOpen && <StatsModal stats={stats} onClose={() => setStatsOpen(false)} />}
+      {archiveOpen && (
+        <ArchiveModal
+          history={history}
+          onPick={(day) => {
+            setArchiveOpen(false);
+            playArchive(day);
+          }}
+          onClose={() => setArchiveOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+type PillarClipGeom = {
+  w: number;
+  h: number;
+  rects: Array<{ x: number; y: number; w: number; h: number; r: number }>;
+};
+
+function readPillarGeom(container: HTMLDivElement, segmentCount: number): PillarClipGeom | null {
+  const segEls = Array.from(
+    container.querySelectorAll<HTMLElement>("[data-pillar-segment]")
+  );
+  if (segEls.length !== segmentCount) return null;
+
+  const w = container.clientWidth;
+  const h = container.clientHeight;
+  if (w <= 0 || h <= 0) return null;
+
+  const rootFontPx =
+    parseFloat(window.getComputedStyle(document.documentElement).fontSize || "16") ||
+    16;
+  const toPx = (v: string): number => {
+    const s = (v || "").trim();
+    if (!s) return 0;
+    if (s.endsWith("px")) return parseFloat(s) || 0;
+    if (s.endsWith("rem")) return (parseFloat(s) || 0) * rootFontPx;
+    return parseFloat(s) || 0;
+  };
+
+  const rects = segEls.map((el) => {
+    const cs = window.getComputedStyle(el);
+    const r = toPx(cs.borderTopLeftRadius || "0");
+    return {
+      x: el.offsetLeft,
+      y: el.offsetTop,
+      w: el.offsetWidth,
+      h: el.offsetHeight,
+      r,
+    };
+  });
+
+  return { w, h, rects };
+}
+
+type ScorePillarProps = {
+  pillarIndex: number;
+  points: number; // cumulative, uncapped
+  rules: GameRules;
+  narrow: boolean; // more than one pillar to a side
+  measureKey: string; // changes when a new game is loaded
+  activeParticles: ActiveParticle[];
+  pendingTopBarUpdates: Set<number>;
+  pillarRef: (el: HTMLDivElement | null) => void;
+};
+
+// One adjective's pillar. Its segments charge up as milestones are reached
+// and stay charging until their particle has reached the top bar.
+function ScorePillar({
+  pillarIndex,
+  points,
+  rules,
+  narrow,
+  measureKey,
+  activeParticles,
+  pendingTopBarUpdates,
+  pillarRef,
+}: ScorePillarProps) {
+  const segmentCount = segmentsPerPillar(rules);
+  const colors = pillarColors(pillarIndex);
+  const segmentContainerRef = useRef<HTMLDivElement | null>(null);
+  const [geom, setGeom] = useState<PillarClipGeom | null>(null);
+  const clipIdRaw = useId();
+  const clipId = `otc-pillar-clip-${pillarIndex}-${clipIdRaw.replace(/:/g, "")}`;
+  const filled = filledSegmentsFor(points, rules);
+  const overflow = overflowPointsFor(points, rules);
+
+  // Measure exact segment geometry (including gaps + rounded corners) for hard clipping
+  useLayoutEffect(() => {
+    const container = segmentContainerRef.current;
+    if (!container) return;
+
+    let raf = 0;
+    const update = () => {
+      cancelAnimationFrame(raf);
+      raf = requestAnimationFrame(() => {
+        const measured = readPillarGeom(container, segmentCount);
+        if (measured) setGeom(measured);
+      });
+    };
+
+    update();
+    const ro = new ResizeObserver(update);
+    ro.observe(container);
+
+    return () => {
+      cancelAnimationFrame(raf);
+      ro.disconnect();
+    };
+  }, [segmentCount, measureKey, points, pillarIndex]);
+
+  const raw = Math.min(points, rules.pillarCap) / rules.pillarCap;
+  const scale = Number.isFinite(raw) ? Math.max(0, Math.min(1, raw)) : 0;
+
+  return (
+    <div ref={pillarRef} className={`${narrow ? "w-7" : "w-10"} flex-shrink-0 pt-2 overflow-hidden bg-otc-bg-soft/80 relative`}>
+      {/* Off the charts: the pillar bursts out of its top */}
+      {overflow > 0 && (
+        <div className="absolute inset-x-0 top-0 z-30 flex justify-center pointer-events-none" title={`+${overflow} past the top`}>
+          <div
+            className="absolute inset-x-0 top-0 h-6 animate-pulse"
+            style={{
+              background: `linear-gradient(to bottom, rgba(${colors.rgb},0.9), rgba(${colors.rgb},0))`,
+              boxShadow: `0 0 16px rgba(${colors.rgb},0.8)`,
+            }}
+          />
+          <span className="relative text-[0.55rem] font-bold leading-none pt-0.5 text-white">+{overflow}</span>
+        </div>
+      )}
+      {/* Segment containers */}
+      <div ref={segmentContainerRef} className={`h-full flex flex-col-reverse gap-1 ${narrow ? "px-1" : "px-1.5"} relative`}>
+        {/* SVG overlay: renders the fill and clips it to the exact rounded segments (Firefox-safe) */}
+        {geom && (
+          <svg
+            className="absolute inset-0 pointer-events-none"
+            style={{ zIndex: 0 }}
+            width="100%"
+            height="100%"
+            viewBox={`0 0 ${geom.w} ${geom.h}`}
+            preserveAspectRatio="none"
+            aria-hidden="true"
+          >
+            <defs>
+              <clipPath id={clipId} clipPathUnits="userSpaceOnUse">
+                {geom.rects.map((r, idx) => (
+                  <rect
+                    key={idx}
+                    x={r.x}
+                    y={r.y}
+                    width={r.w}
+                    height={r.h}
+                    rx={r.r}
+                    ry={r.r}
+                  />
+                ))}
+              </clipPath>
+            </defs>
+            <g clipPath={`url(#${clipId})`}>
+              {/* base */}
+              <rect x="0" y="0" width={geom.w} height={geom.h} fill="rgba(0,0,0,0.30)" />
+              {/* fill */}
+              <g
+                style={{
+                  // Firefox is finicky about SVG transform-origin/transform-box.
+                  // This translate/scale/translate pins the scale to the bottom in user units.
+                  transform: `translate(0px, ${geom.h}px) scale(1, ${scale}) translate(0px, ${-geom.h}px)`,
+                  transition: "transform 0.5s linear",
+                }}
+              >
+                <rect
+                  x="0"
+                  y="0"
+                  width={geom.w}
+                  height={geom.h}
+                  fill={`rgb(${colors.rgb})`}
+                />
+              </g>
+            </g>
+          </svg>
+        )}
+
+        {Array.from({ length: segmentCount }, (_, i) => {
+          const segmentThreshold = (i + 1) * rules.pointsPerSegment; // Segment 0 = 5pts, segment 4 = 25pts by default
+          const cappedScore = Math.min(points, rules.pillarCap);
+          const isMilestoneReached = cappedScore >= segmentThreshold;
+          // Check if this segment has reached milestone but particle hasn't been confirmed yet
+          const topBarIndex = pillarIndex * segmentCount + i; // Each pillar's segments follow the previous pillar's in the top bar
+          const hasActiveParticle = activeParticles.some(p => p.pillarIndex === pillarIndex && p.segmentIndex === topBarIndex);
+          const isConfirmed = pendingTopBarUpdates.has(topBarIndex);
+          const isCharging = isMilestoneReached && !isConfirmed && !hasActiveParticle && i < filled;
+
+          return (
+            <div
+              key={i}
+              data-pillar-segment
+              className={`w-full flex-1 rounded relative overflow-hidden border ${colors.border} bg-transparent z-10`}
+            >
+              {/* Charging glow effect when segment reaches milestone */}
+              {isCharging && (
+                <div
+                  className={`absolute inset-0 ${colors.fill} animate-pulse`}
+                  style={{
+                    opacity: 0.3,
+                    boxShadow: `0 0 12px rgba(${colors.rgb},0.9), 0 0 20px rgba(${colors.rgb},0.6)`,
+                    zIndex: 20,
+                  }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
     </div>
   );
 }
@@ -1315,7 +1465,7 @@ export function Game() {
 // Particle component with ghost trail
 type ParticleProps = {
   id: string;
-  isPink: boolean;
+  color: string;
   startX: number;
   startY: number;
   endX: number;
@@ -1323,7 +1473,7 @@ type ParticleProps = {
   onComplete: () => void;
 };
 
-function Particle({ id, isPink, startX, startY, endX, endY, onComplete }: ParticleProps) {
+function Particle({ id, color, startX, startY, endX, endY, onComplete }: ParticleProps) {
   const [position, setPosition] = useState({ x: startX, y: startY });
   const [ghostTrail, setGhostTrail] = useState<Array<{ x: number; y: number; opacity: number; id: number }>>([]);
   const trailIdRef = useRef(0);
@@ -1414,8 +1564,6 @@ function Particle({ id, isPink, startX, startY, endX, endY, onComplete }: Partic
     };
   }, [startX, startY, endX, endY]);
 
-  const color = isPink ? 'rgb(244, 114, 182)' : 'rgb(34, 211, 238)';
-  
   return (
     <>
       {/* Ghost trail */}
@@ -1455,11 +1603,53 @@ function Particle({ id, isPink, startX, startY, endX, endY, onComplete }: Partic
   );
 }
 
+type JudgePickerProps = {
+  value: PersonaId;
+  onChange: (persona: PersonaId) => void;
+  panelMode: boolean;
+  onPanelModeChange: (panelMode: boolean) => void;
+};
+
+// Only the commentary voice changes between judges; scores stay comparable,
+// so the judge can be switched at any point in the game.
+function JudgePicker({ value, onChange, panelMode, onPanelModeChange }: JudgePickerProps) {
+  return (
+    <div className="mt-0.5 flex items-center gap-1.5 text-[0.65rem] text-otc-muted">
+      <label htmlFor="judge-picker" className="uppercase tracking-[0.1em]">
+        Judge
+      </label>
+      <select
+        id="judge-picker"
+        value={value}
+        onChange={(e) => onChange(e.target.value as PersonaId)}
+        title={PERSONAS[value].tagline}
+        className="rounded-full border border-white/15 bg-black/30 px-2 py-0.5 text-[0.65rem] text-otc-text hover:bg-black/50 transition"
+      >
+        {PERSONA_IDS.map((id) => (
+          <option key={id} value={id}>
+            {PERSONAS[id].name}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 uppercase tracking-[0.1em] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={panelMode}
+          onChange={(e) => onPanelModeChange(e.target.checked)}
+          className="accent-otc-accent-alt"
+        />
+        Panel
+      </label>
+    </div>
+  );
+}
+
 type PreviousGuessRowProps = {
   roundLabel: string;
   guess: GuessResult;
   roundIndex: number;
-  adjectives: [string, string];
+  adjectives: string[];
+  live?: LiveVerdict;
   onAppeal: (roundIndex: number) => void;
   appealsRemaining: number;
   canAppealNow?: boolean;
@@ -1471,14 +1661,18 @@ function PreviousGuessRow({
   guess,
   roundIndex,
   adjectives,
+  live,
   onAppeal,
   appealsRemaining,
   canAppealNow = true,
   isBest = false,
 }: PreviousGuessRowProps) {
-  const combinedScore = guess.scores ? guess.scores[0] + guess.scores[1] : 0;
+  const scores = live?.scores ?? guess.scores;
+  const reasonings = live ? live.reasonings : guess.reasonings;
+  const combined = scores ? combinedScore(scores) : 0;
 
   const canAppeal =
+    !live?.streaming &&
     canAppealNow &&
     !guess.appealed &&
     guess.scores &&
@@ -1503,23 +1697,28 @@ function PreviousGuessRow({
             <div className="text-sm font-bold uppercase text-otc-text break-words text-center">
               {guess.noun}
             </div>
-            {guess.scores && !guess.isPass && (
+            {scores && !guess.isPass && (
               <div className={`text-lg font-bold ${
                   isBest
                   ? "text-otc-accent-strong"
                   : "text-otc-accent-alt"
               }`}>
-                {combinedScore}<span className="text-sm opacity-70">/20</span>
+                {combined}<span className="text-sm opacity-70">/{maxCombinedScore(adjectives.length)}</span>
               </div>
             )}
           </div>
         </div>
+        {!guess.scores && !guess.isPass && guess.noun && (
+          <div className="text-[0.6rem] uppercase tracking-[0.18em] text-otc-muted">
+            {guess.scoringGivenUp ? "Unscored" : "Awaiting verdict…"}
+          </div>
+        )}
         {guess.appealed && (
           <div className="text-[0.6rem] uppercase tracking-[0.18em] text-otc-muted">
             {(() => {
               const delta = guess.appealDelta;
-              if (delta && (delta[0] > 0 || delta[1] > 0)) {
-                return `+${delta[0] + delta[1]}`;
+              if (delta && delta.some((d) => d > 0)) {
+                return `+${combinedScore(delta)}`;
               }
               return "Rejected";
             })()}
@@ -1536,43 +1735,81 @@ function PreviousGuessRow({
         )}
       </div>
 
-      {guess.scores && guess.reasonings && (
+      {scores && reasonings && (
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
-          <div className="rounded bg-black/40 border border-white/10 px-2 py-1">
-            <div className="flex items-center justify-between mb-0.5">
-              <span className="text-[0.65rem] font-semibold text-pink-400 uppercase tracking-[0.1em]">
-                {adjectives[0]}
-              </span>
-              <span className="text-[0.75rem] font-bold text-otc-accent-strong">
-                {guess.scores[0]}/10
-              </span>
-            </div>
-            <div className="text-[0.65rem] leading-tight text-otc-muted">
-              {guess.reasonings[0]}
-            </div>
-          </div>
-          <div className="rounded bg-black/40 border border-white/10 px-2 py-1">
-            <div className="flex items-center justify-between mb-0.5">
-              <span className="text-[0.65rem] font-semibold text-otc-accent-alt uppercase tracking-[0.1em]">
-                {adjectives[1]}
-              </span>
-              <span className="text-[0.75rem] font-bold text-otc-accent-alt">
-                {guess.scores[1]}/10
-              </span>
-            </div>
-            <div className="text-[0.65rem] leading-tight text-otc-muted">
-              {guess.reasonings[1]}
+          {adjectives.map((adjective, i) => (
+            <div key={adjective} className="rounded bg-black/40 border border-white/10 px-2 py-1">
+              <div className="flex items-center justify-between mb-0.5">
+                <span className={`text-[0.65rem] font-semibold ${pillarColors(i).text} uppercase tracking-[0.1em]`}>
+                  {adjective}
+                </span>
+                <span className={`text-[0.75rem] font-bold ${pillarColors(i).score}`}>
+                  {scores[i]}/10
+                </span>
+              </div>
+              <div className="text-[0.65rem] leading-tight text-otc-muted">
+                {live ? (
+                  <Typewriter text={reasonings[i] ?? ""} streaming={live.streaming} />
+                ) : (
+                  reasonings[i]
+                )}
+              </div>
             </div>
-          </div>
+          ))}
         </div>
       )}
+
+      {guess.panel && guess.panel.length > 1 && <PanelSummary panel={guess.panel} />}
+    </div>
+  );
+}
+
+const TYPEWRITER_CHAR_MS = 18;
+
+// Reveals text one character at a time at a steady pace, whether it arrives
+// in dribbles from the stream or all at once. The caret stays while more text
+// is expected or still being typed.
+function Typewriter({ text, streaming }: { text: string; streaming: boolean }) {
+  const [shown, setShown] = useState(0);
+
+  useEffect(() => {
+    if (shown >= text.length) return;
+    const timeoutId = setTimeout(() => setShown((n) => n + 1), TYPEWRITER_CHAR_MS);
+    return () => clearTimeout(timeoutId);
+  }, [shown, text.length]);
+
+  const typing = streaming || shown < text.length;
+  return (
+    <>
+      {text.slice(0, shown)}
+      {typing && <span className="animate-pulse text-otc-accent-alt">▍</span>}
+    </>
+  );
+}
+
+// Mini panel under a guess: each judge's combined score and one-liner.
+function PanelSummary({ panel }: { panel: PanelistVerdict[] }) {
+  return (
+    <div className="mt-1.5 rounded bg-black/30 border border-white/10 px-2 py-1 space-y-0.5">
+      <div className="text-[0.6rem] uppercase tracking-[0.18em] text-otc-muted">Panel</div>
+      {panel.map((p) => (
+        <div key={p.persona} className="flex items-baseline gap-1.5 text-[0.65rem] leading-tight">
+          <span className="font-semibold text-otc-text whitespace-nowrap">{PERSONAS[p.persona].name}</span>
+          <span className="font-bold text-otc-accent-alt whitespace-nowrap">
+            {combinedScore(p.scores)}/{maxCombinedScore(p.scores.length)}
+          </span>
+          <span className="text-otc-muted truncate" title={p.quip}>
+            {p.quip}
+          </span>
+        </div>
+      ))}
     </div>
   );
 }
 
 type AppealModalProps = {
   guess: GuessResult;
-  adjectives: [string, string];
+  adjectives: string[];
   appealsRemaining: number;
   appealText: string;
   onAppealTextChange: (value: string) => void;
@@ -1594,8 +1831,7 @@ function AppealModal({
   error,
 }: AppealModalProps) {
   if (!guess) return null;
-  const [adjective1, adjective2] = adjectives;
-  const combinedScore = guess.scores ? guess.scores[0] + guess.scores[1] : 0;
+  const combined = guess.scores ? combinedScore(guess.scores) : 0;
 
   return (
     <div className="absolute inset-0 bg-black/60 flex items-center justify-center px-4 py-4">
@@ -1605,42 +1841,35 @@ function AppealModal({
         </div>
         <div className="text-base font-semibold">
           Appealing "{guess.noun}" for{" "}
-          <span className="text-otc-accent">{adjective1}</span> &{" "}
-          <span className="text-otc-accent">{adjective2}</span>
+          {adjectives.map((adjective, i) => (
+            <span key={adjective}>
+              {i > 0 && (i === adjectives.length - 1 ? " & " : ", ")}
+              <span className="text-otc-accent">{adjective}</span>
+            </span>
+          ))}
         </div>
         {guess.scores && (
           <div className="text-[0.8rem] text-otc-muted">
-            Current combined score: <span className="font-semibold">{combinedScore}/20</span>
+            Current combined score: <span className="font-semibold">{combined}/{maxCombinedScore(adjectives.length)}</span>
           </div>
         )}
         {guess.scores && guess.reasonings && (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-            <div className="rounded-lg bg-black/40 border border-white/10 px-2.5 py-2">
-              <div className="flex items-center justify-between mb-1">
-                <span className="text-[0.7rem] font-semibold text-pink-400 uppercase tracking-[0.1em]">
-                  {adjective1}
-                </span>
-                <span className="text-[0.8rem] font-bold text-otc-accent-strong">
-                  {guess.scores[0]}/10
-                </span>
-              </div>
-              <div className="text-[0.7rem] leading-snug text-otc-muted">
-                {guess.reasonings[0]}
-              </div>
-            </div>
-            <div className="rounded-lg bg-black/40 border border-white/10 px-2.5 py-2">
-              <div className="flex items-center justify-between mb-1">
-                <span className="text-[0.7rem] font-semibold text-otc-accent-alt uppercase tracking-[0.1em]">
-                  {adjective2}
-                </span>
-                <span className="text-[0.8rem] font-bold text-otc-accent-alt">
-                  {guess.scores[1]}/10
-                </span>
-              </div>
-              <div className="text-[0.7rem] leading-snug text-otc-muted">
-                {guess.reasonings[1]}
+            {adjectives.map((adjective, i) => (
+              <div key={adjective} className="rounded-lg bg-black/40 border border-white/10 px-2.5 py-2">
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`text-[0.7rem] font-semibold ${pillarColors(i).text} uppercase tracking-[0.1em]`}>
+                    {adjective}
+                  </span>
+                  <span className={`text-[0.8rem] font-bold ${pillarColors(i).score}`}>
+                    {guess.scores?.[i]}/10
+                  </span>
+                </div>
+                <div className="text-[0.7rem] leading-snug text-otc-muted">
+                  {guess.reasonings?.[i]}
+                </div>
               </div>
-            </div>
+            ))}
           </div>
         )}
         <div className="text-[0.7rem] text-otc-muted">
@@ -1698,3 +1927,390 @@ function AppealModal({
     </div>
   );
 }
+
+type StatsModalProps = {
+  stats: PlayStats;
+  onClose: () => void;
+};
+
+// Lifetime stats for daily games; debug games never reach the history log.
+function StatsModal({ stats, onClose }: StatsModalProps) {
+  const peak = Math.max(1, ...stats.distribution);
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center px-4 py-4" onClick={onClose}>
+      <div
+        className="w-full max-w-sm rounded-2xl bg-otc-bg-soft border border-otc-accent/40 shadow-otc-card px-4 py-3 space-y-3 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-[0.7rem] tracking-[0.2em] uppercase text-otc-muted">Your stats</div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-white/20 px-2 py-0.5 text-[0.65rem] text-otc-muted bg-black/40 hover:bg-black/60 transition"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {[
+            ["Played", stats.gamesPlayed],
+            ["Streak", stats.currentStreak],
+            ["Best streak", stats.maxStreak],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-lg bg-black/40 border border-white/10 px-2 py-1.5">
+              <div className="text-xl font-bold text-otc-accent-alt">{value}</div>
+              <div className="text-[0.6rem] uppercase tracking-[0.12em] text-otc-muted">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        {stats.gamesPlayed === 0 ? (
+          <div className="text-center text-[0.75rem] text-otc-muted py-2">
+            Finish today's game to start your history.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <div className="text-[0.65rem] uppercase tracking-[0.18em] text-otc-muted">Final scores</div>
+              {stats.distribution.map((count, score) => (
+                <div key={score} className="flex items-center gap-1.5 text-[0.65rem]">
+                  <span className="w-8 text-right text-otc-muted">
+                    {score}/{stats.distribution.length - 1}
+                  </span>
+                  <div className="flex-1 h-3">
+                    <div
+                      className="h-full rounded-sm bg-gradient-to-r from-otc-accent-strong to-otc-accent-alt"
+                      style={{ width: `${(count / peak) * 100}%`, minWidth: count > 0 ? "0.75rem" : 0 }}
+                    />
+                  </div>
+                  <span className="w-4 text-otc-text">{count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-[0.65rem] uppercase tracking-[0.18em] text-otc-muted">Average pillar fill</div>
+              {stats.averageFill.map((fill, i) => {
+                // Two pillars read as left and right; beyond that, by position
+                const label = stats.averageFill.length === 2 ? ["Left", "Right"][i] : `#${i + 1}`;
+                return (
+                  <div key={label} className="flex items-center gap-1.5 text-[0.65rem]">
+                    <span className="w-8 text-right text-otc-muted">{label}</span>
+                    <div className="flex-1 h-3 rounded-sm bg-white/10 overflow-hidden">
+                      <div className={`h-full ${pillarColors(i).fill}`} style={{ width: `${fill * 100}%` }} />
+                    </div>
+                    <span className="w-8 text-otc-text">{Math.round(fill * 100)}%</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {stats.offTheChartsGames > 0 && (
+              <div className="flex items-center justify-between rounded bg-black/40 border border-white/10 px-2 py-1 text-[0.65rem]">
+                <span className="text-otc-muted">
+                  Off the charts in {stats.offTheChartsGames} {stats.offTheChartsGames === 1 ? "game" : "games"}
+                </span>
+                <span className="font-bold text-otc-accent">best +{stats.bestOverflow}</span>
+              </div>
+            )}
+
+            {stats.personalBests.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-[0.65rem] uppercase tracking-[0.18em] text-otc-muted">Personal bests</div>
+                {stats.personalBests.map((best) => (
+                  <div
+                    key={`${best.day}-${best.noun}`}
+                    className="flex items-baseline justify-between gap-2 rounded bg-black/40 border border-white/10 px-2 py-1 text-[0.65rem]"
+                  >
+                    <span className="min-w-0">
+                      <span className="font-bold uppercase text-otc-text">{best.noun}</span>{" "}
+                      <span className="text-otc-muted">
+                        for {formatAdjectives(best.adjectives)}
+                      </span>
+                    </span>
+                    <span className="font-bold text-otc-accent-alt whitespace-nowrap">
+                      {combinedScore(best.scores)}/{maxCombinedScore(best.scores.length)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type ScoreBreakdownProps = {
+  score: GameScore;
+  adjectives: string[];
+  rules: GameRules;
+};
+
+// Where the final score came from: each round's points per adjective (and
+// what an appeal added), each pillar's total, what that fills and what went
+// past the top.
+function ScoreBreakdown({ score, adjectives, rules }: ScoreBreakdownProps) {
+  const columns = { gridTemplateColumns: `auto minmax(0, 1fr) repeat(${adjectives.length}, auto) auto` };
+
+  return (
+    <section className="rounded-2xl bg-black/30 border border-white/15 px-4 py-3 space-y-2">
+      <div className="text-[0.7rem] tracking-[0.2em] uppercase text-otc-muted text-center">How you scored</div>
+      <div className="grid gap-x-3 gap-y-1 text-[0.7rem] items-baseline" style={columns}>
+        <span />
+        <span />
+        {adjectives.map((adjective, i) => (
+          <span key={adjective} className={`text-right text-[0.6rem] uppercase tracking-[0.1em] ${pillarColors(i).text}`}>
+            {adjective}
+          </span>
+        ))}
+        <span className="text-right text-[0.6rem] uppercase tracking-[0.1em] text-otc-muted">Total</span>
+
+        {score.rounds.map((round) => (
+          <div key={round.roundIndex} className="contents">
+            <span className="text-otc-muted">#{round.roundIndex + 1}</span>
+            <span className="min-w-0 truncate font-semibold">
+              {round.isPass ? <span className="text-otc-muted font-normal">Pass</span> : round.noun || "—"}
+            </span>
+            {adjectives.map((adjective, i) => (
+              <span key={adjective} className={`text-right ${pillarColors(i).score}`}>
+                {round.scores && !round.isPass ? round.scores[i] : "—"}
+                {!!round.appealDelta?.[i] && (
+                  <span className="ml-0.5 text-[0.6rem] text-otc-accent" title="Added on appeal">
+                    (+{round.appealDelta[i]})
+                  </span>
+                )}
+              </span>
+            ))}
+            <span className={`text-right font-bold ${round.roundIndex === score.bestRoundIndex ? "text-otc-accent-strong" : "text-otc-accent-alt"}`}>
+              {round.combined}
+            </span>
+          </div>
+        ))}
+
+        <span className="col-span-2 border-t border-white/10 pt-1 text-otc-muted">Points</span>
+        {score.pillars.map((pillar, i) => (
+          <span key={i} className={`border-t border-white/10 pt-1 text-right font-semibold ${pillarColors(i).score}`}>
+            {pillar.points}
+          </span>
+        ))}
+        <span className="border-t border-white/10 pt-1" />
+
+        <span className="col-span-2 text-otc-muted">Segments (every {rules.pointsPerSegment} up to {rules.pillarCap})</span>
+        {score.pillars.map((pillar, i) => (
+          <span key={i} className="text-right">{pillar.segments}</span>
+        ))}
+        <span className="text-right font-bold text-otc-accent-alt">
+          {score.grade.finalScore}/{score.grade.maxFinalScore}
+        </span>
+
+        {score.grade.overflow > 0 && (
+          <>
+            <span className="col-span-2 text-otc-muted">Off the charts</span>
+            {score.pillars.map((pillar, i) => (
+              <span key={i} className="text-right text-otc-accent">{pillar.overflow > 0 ? `+${pillar.overflow}` : "—"}</span>
+            ))}
+            <span className="text-right font-bold text-otc-accent">+{score.grade.overflow}</span>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type ChallengeComparisonProps = {
+  challenge: Challenge;
+  guesses: GuessResult[];
+  score: GameScore;
+  isFinal: boolean;
+};
+
+// Side-by-side with the friend's game. Their answers (if they shared them)
+// only show once this game is over, so they can't be copied mid-game.
+function ChallengeComparison({ challenge, guesses, score, isFinal }: ChallengeComparisonProps) {
+  const theirTotal = challengeGrade(challenge);
+  const yourTotal = score.grade;
+  // Equal final scores go to whoever got further off the charts
+  const outcome = compareFinalScores(yourTotal, theirTotal);
+  const verdict = !isFinal
+    ? "Waiting on the judge…"
+    : outcome > 0
+      ? yourTotal.finalScore > theirTotal.finalScore ? "You win!" : "You win on overflow!"
+      : outcome < 0
+        ? theirTotal.finalScore > yourTotal.finalScore ? "They win this one." : "They win on overflow."
+        : "It's a tie!";
+  const roundLabel = (round: { scores?: number[]; isPass?: boolean }) =>
+    round.isPass ? "Pass" : round.scores ? round.scores.join(" + ") : "—";
+
+  return (
+    <section className="rounded-2xl bg-black/30 border border-otc-accent/40 px-4 py-3 space-y-2">
+      <div className="text-[0.7rem] tracking-[0.2em] uppercase text-otc-muted text-center">Challenge</div>
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-[0.75rem]">
+        <span />
+        <span className="text-otc-muted uppercase tracking-[0.12em] text-[0.6rem]">You</span>
+        <span className="text-otc-muted uppercase tracking-[0.12em] text-[0.6rem]">Them</span>
+        {guesses.map((guess, i) => {
+          const theirs = challenge.rounds[i] ?? {};
+          return (
+            <div key={i} className="contents">
+              <span className="text-otc-muted">#{i + 1}</span>
+              <span className="min-w-0 truncate">
+                {guess.noun && !guess.isPass && <span className="font-semibold">{guess.noun} </span>}
+                <span className="text-otc-muted">{roundLabel(guess)}</span>
+              </span>
+              <span className="min-w-0 truncate">
+                {isFinal && theirs.noun && <span className="font-semibold">{theirs.noun} </span>}
+                <span className="text-otc-muted">{roundLabel(theirs)}</span>
+              </span>
+            </div>
+          );
+        })}
+        <span className="text-otc-muted">Total</span>
+        <span className="font-bold text-otc-accent-alt">{yourTotal.label}</span>
+        <span className="font-bold text-otc-accent-alt">{theirTotal.label}</span>
+      </div>
+      <div className="text-sm font-semibold text-center text-otc-accent">{verdict}</div>
+      <div className="flex justify-center">
+        <Link
+          href="/"
+          className="rounded-full border border-white/20 px-3 py-1 text-[0.7rem] text-otc-muted bg-black/40 hover:bg-black/60 transition"
+        >
+          Back to today's game
+        </Link>
+      </div>
+    </section>
+  );
+}
+
+// Ticks down to the next rollover. Once it's reached, the hook notices the new
+// puzzle and the header offers to move on.
+function NextPuzzleCountdown() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const remaining = Math.max(0, nextRolloverAt(now).getTime() - now.getTime());
+  const totalSeconds = Math.floor(remaining / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return (
+    <div className="text-[0.7rem] text-center text-otc-muted">
+      Next puzzle in{" "}
+      <span className="font-semibold tabular-nums text-otc-text">
+        {hours}:{pad(minutes)}:{pad(seconds)}
+      </span>
+    </div>
+  );
+}
+
+type ArchiveModalProps = {
+  history: PlayHistory;
+  onPick: (day: string) => void;
+  onClose: () => void;
+};
+
+// Month-by-month calendar of past puzzles. Days already in the history show
+// their final score; ones played from the archive are marked as such.
+function ArchiveModal({ history, onPick, onClose }: ArchiveModalProps) {
+  const today = todayKey();
+  const yesterday = new Date(Date.parse(`${today.slice(0, 10)}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+  const firstMonth = ARCHIVE_FIRST_DAY.slice(0, 7);
+  const lastMonth = yesterday.slice(0, 7);
+  const [month, setMonth] = useState(lastMonth); // YYYY-MM
+
+  const [year, monthIndex] = [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1];
+  const leadingBlanks = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  const shiftMonth = (delta: number) =>
+    setMonth(new Date(Date.UTC(year, monthIndex + delta, 1)).toISOString().slice(0, 7));
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center px-4 py-4" onClick={onClose}>
+      <div
+        className="w-full max-w-sm rounded-2xl bg-otc-bg-soft border border-otc-accent/40 shadow-otc-card px-4 py-3 space-y-3 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-[0.7rem] tracking-[0.2em] uppercase text-otc-muted">Archive</div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-white/20 px-2 py-0.5 text-[0.65rem] text-otc-muted bg-black/40 hover:bg-black/60 transition"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => shiftMonth(-1)}
+            disabled={month <= firstMonth}
+            className="rounded-full border border-white/15 px-2 py-0.5 text-[0.7rem] text-otc-muted disabled:opacity-30"
+          >
+            ‹
+          </button>
+          <div className="font-semibold text-otc-text">
+            {formatDay(`${month}-01`, { month: "long", year: "numeric" })}
+          </div>
+          <button
+            type="button"
+            onClick={() => shiftMonth(1)}
+            disabled={month >= lastMonth}
+            className="rounded-full border border-white/15 px-2 py-0.5 text-[0.7rem] text-otc-muted disabled:opacity-30"
+          >
+            ›
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {["S", "M", "T", "W", "T", "F", "S"].map((label, i) => (
+            <div key={i} className="text-[0.6rem] uppercase text-otc-muted">
+              {label}
+            </div>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, i) => (
+            <div key={`blank-${i}`} />
+          ))}
+          {Array.from({ length: daysInMonth }, (_, i) => {
+            const day = `${month}-${String(i + 1).padStart(2, "0")}`;
+            const result = history.results[day];
+            const playable = isArchiveDay(day, today);
+            return (
+              <button
+                key={day}
+                type="button"
+                disabled={!playable}
+                onClick={() => onPick(day)}
+                title={result ? `${gradeFor(result.pillars, result.rules ?? DEFAULT_GAME_RULES).label}${result.archive ? " (archive)" : ""}` : undefined}
+                className={`rounded-md border px-0.5 py-1 text-[0.7rem] leading-tight transition disabled:opacity-25 ${
+                  result
+                    ? result.archive
+                      ? "border-otc-accent-alt/50 bg-otc-accent-alt/10"
+                      : "border-otc-accent/60 bg-otc-accent/15"
+                    : "border-white/10 bg-black/30 hover:bg-black/50"
+                }`}
+              >
+                <div>{i + 1}</div>
+                <div className="text-[0.55rem] text-otc-muted h-3">{result ? result.finalScore : ""}</div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="text-[0.65rem] text-otc-muted text-center">
+          Archive games are saved to your history but don't count towards streaks.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,188 +1,253 @@
-// Base adjective list for Off the Charts.
-// Developers can freely edit / expand this list over time.
+// Adjective pool for Off the Charts, with the metadata the daily pair
+// scheduler uses to build fair pairs.
+// Developers can freely expand this list over time; append new adjectives at
+// the end rather than editing or reordering, since the daily pair scheduler
+// refers to them by position. `npm run check:adjectives` (also run before
+// every build) rejects malformed entries.
 // Keep adjectives fairly common, concrete, and evocative.
 
-export const BASE_ADJECTIVES: string[] = [
-  "agile",
-  "alien",
-  "ancient",
-  "animated",
-  "apathetic",
-  "aromatic",
-  "awkward",
-  "barren",
-  "basic",
-  "bitter",
-  "bold",
-  "bouncy",
-  "breezy",
-  "bright",
-  "brilliant",
-  "brittle",
-  "bubbly",
-  "chaotic",
-  "charming",
-  "cheerful",
-  "clever",
-  "cloudy",
-  "clumsy",
-  "colorful",
-  "confused",
-  "cozy",
-  "curious",
-  "dangerous",
-  "delicate",
-  "dramatic",
-  "elusive",
-  "energetic",
-  "ethereal",
-  "fearless",
-  "fiery",
-  "flexible",
-  "flimsy",
-  "fluffy",
-  "foggy",
-  "fragile",
-  "frantic",
-  "frozen",
-  "gentle",
-  "ghostly",
-  "gigantic",
-  "gloomy",
-  "glorious",
-  "graceful",
-  "greedy",
-  "gritty",
-  "groovy",
-  "grumpy",
-  "guilty",
-  "harsh",
-  "haunting",
-  "hectic",
-  "helpless",
-  "heroic",
-  "hidden",
-  "hollow",
-  "hopeful",
-  "hungry",
-  "icy",
-  "immense",
-  "impatient",
-  "infinite",
-  "intense",
-  "invisible",
-  "jagged",
-  "jaunty",
-  "jittery",
-  "joyful",
-  "lazy",
-  "legendary",
-  "lonely",
-  "loud",
-  "magical",
-  "massive",
-  "melodic",
-  "messy",
-  "mighty",
-  "moody",
-  "mysterious",
-  "nervous",
-  "noisy",
-  "nostalgic",
-  "odd",
-  "orderly",
-  "ornate",
-  "overwhelming",
-  "peaceful",
-  "playful",
-  "pointless",
-  "polished",
-  "powerful",
-  "prickly",
-  "proud",
-  "puzzling",
-"restless",
-  "rigid",
-  "rough",
-"rowdy",
-"rusty",
-"scattered",
-"shallow",
-  "sharp",
-  "shiny",
-  "silky",
-"silly",
-"sleepy",
-"slippery",
-"sluggish",
-"smooth",
-"soft",
-"spacious",
-"speedy",
-  "spiky",
-  "spooky",
-  "spotless",
-  "squishy",
-  "stale",
-  "steep",
-  "sticky",
-"sturdy",
-"subtle",
-"suspicious",
-  "swift",
-  "tangled",
-  "tasty",
-  "tense",
-  "thick",
-  "thin",
-  "thrilling",
-"tidy",
-"timid",
-"tiny",
-"transparent",
-"tricky",
-  "twisted",
-  "unsteady",
-  "vague",
-  "vast",
- "velvety",
- "vibrant",
- "villainous",
- "warm",
- "watery",
- "weightless",
- "wild",
- "windy",
- "witty",
- "youthful",
- "cringe",
- "wholesome",
- "Chaotic Good",
- "True Neutral",
- "Chaotic Evil",
- "edgy",
- "cyberpunk",
- "sci-fi",
- "dystopian",
- "underdog",
- "rebellious",
- "nerd",
- "jock",
- "futuristic",
- "prehistoric",
- "hardcore",
- "spicy",
- "iconic",
- "underrated",
- "overrated",
- "doomed",
- "experimental",
- "impractical",
- "memes",
- "zany",
- "zippy",
+export type PartOfSpeech = "adjective" | "noun" | "phrase";
+// 1 = answers come easily, 3 = abstract or hard to pin down
+export type DifficultyTier = 1 | 2 | 3;
+export type Tone = "positive" | "negative" | "neutral";
+
+export type AdjectiveEntry = {
+  word: string;
+  partOfSpeech: PartOfSpeech; // only adjectives are scheduled as daily puzzles
+  tier: DifficultyTier;
+  tone: Tone;
+  familyFriendly: boolean; // only family-friendly entries are scheduled
+  synonyms?: string[]; // near-synonyms in the pool; never paired together
+  antonyms?: string[]; // may be paired, but the pair counts as harder
+};
+
+export const ADJECTIVES: AdjectiveEntry[] = [
+  { word: "agile", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["swift", "speedy", "flexible", "zippy"], antonyms: ["clumsy", "sluggish"] },
+  { word: "alien", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["odd"] },
+  { word: "ancient", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["prehistoric"], antonyms: ["youthful", "futuristic"] },
+  { word: "animated", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["energetic", "vibrant"], antonyms: ["sleepy"] },
+  { word: "apathetic", partOfSpeech: "adjective", tier: 3, tone: "negative", familyFriendly: true, antonyms: ["curious"] },
+  { word: "aromatic", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["stale"] },
+  { word: "awkward", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["clumsy", "cringe"], antonyms: ["graceful"] },
+  { word: "barren", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["hollow"] },
+  { word: "basic", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, antonyms: ["ornate", "experimental"] },
+  { word: "bitter", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["harsh"] },
+  { word: "bold", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["fearless"], antonyms: ["timid"] },
+  { word: "bouncy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true },
+  { word: "breezy", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["windy"] },
+  { word: "bright", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["shiny", "vibrant", "brilliant"], antonyms: ["gloomy"] },
+  { word: "brilliant", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["bright", "clever"] },
+  { word: "brittle", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["fragile", "delicate", "flimsy"], antonyms: ["sturdy"] },
+  { word: "bubbly", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["cheerful"], antonyms: ["gloomy"] },
+  { word: "chaotic", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["hectic", "messy", "frantic", "rowdy", "wild"], antonyms: ["orderly", "peaceful"] },
+  { word: "charming", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "cheerful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["joyful", "bubbly"], antonyms: ["gloomy", "grumpy"] },
+  { word: "clever", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["witty", "brilliant"] },
+  { word: "cloudy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["foggy"] },
+  { word: "clumsy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["awkward"], antonyms: ["graceful", "agile"] },
+  { word: "colorful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["vibrant"] },
+  { word: "confused", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "cozy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["warm"] },
+  { word: "curious", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["apathetic"] },
+  { word: "dangerous", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true },
+  { word: "delicate", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["fragile", "brittle"], antonyms: ["sturdy"] },
+  { word: "dramatic", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["intense"], antonyms: ["subtle"] },
+  { word: "elusive", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, synonyms: ["hidden"] },
+  { word: "energetic", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["animated"], antonyms: ["sleepy", "lazy", "sluggish"] },
+  { word: "ethereal", partOfSpeech: "adjective", tier: 3, tone: "positive", familyFriendly: true, synonyms: ["ghostly", "weightless"] },
+  { word: "fearless", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["bold", "heroic"], antonyms: ["timid"] },
+  { word: "fiery", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["spicy"], antonyms: ["icy", "frozen"] },
+  { word: "flexible", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["agile"], antonyms: ["rigid"] },
+  { word: "flimsy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["fragile", "brittle", "thin"], antonyms: ["sturdy"] },
+  { word: "fluffy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["soft"] },
+  { word: "foggy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["cloudy", "vague"] },
+  { word: "fragile", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["delicate", "brittle", "flimsy"], antonyms: ["sturdy"] },
+  { word: "frantic", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["hectic", "chaotic"], antonyms: ["peaceful"] },
+  { word: "frozen", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["icy"], antonyms: ["fiery"] },
+  { word: "gentle", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["soft"], antonyms: ["harsh", "rough"] },
+  { word: "ghostly", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["spooky", "haunting", "ethereal"] },
+  { word: "gigantic", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["massive", "immense", "vast"], antonyms: ["tiny"] },
+  { word: "gloomy", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["moody"], antonyms: ["cheerful", "bright"] },
+  { word: "glorious", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["legendary"] },
+  { word: "graceful", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["clumsy", "awkward"] },
+  { word: "greedy", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["hungry"] },
+  { word: "gritty", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["rough"] },
+  { word: "groovy", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "grumpy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["moody"], antonyms: ["cheerful"] },
+  { word: "guilty", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "harsh", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["bitter", "rough"], antonyms: ["gentle"] },
+  { word: "haunting", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, synonyms: ["ghostly", "spooky"] },
+  { word: "hectic", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["frantic", "chaotic"], antonyms: ["peaceful"] },
+  { word: "helpless", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, antonyms: ["mighty", "powerful"] },
+  { word: "heroic", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["fearless"], antonyms: ["villainous"] },
+  { word: "hidden", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["invisible", "elusive"] },
+  { word: "hollow", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["barren"] },
+  { word: "hopeful", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["doomed"] },
+  { word: "hungry", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["greedy"] },
+  { word: "icy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["frozen"], antonyms: ["fiery", "warm"] },
+  { word: "immense", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["gigantic", "massive", "vast"], antonyms: ["tiny"] },
+  { word: "impatient", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["restless"] },
+  { word: "infinite", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, synonyms: ["vast"] },
+  { word: "intense", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["dramatic", "hardcore"], antonyms: ["subtle"] },
+  { word: "invisible", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["transparent", "hidden"] },
+  { word: "jagged", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["spiky", "sharp"], antonyms: ["smooth"] },
+  { word: "jaunty", partOfSpeech: "adjective", tier: 3, tone: "positive", familyFriendly: true, synonyms: ["playful"] },
+  { word: "jittery", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["nervous"] },
+  { word: "joyful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["cheerful"] },
+  { word: "lazy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["sluggish", "sleepy"], antonyms: ["energetic"] },
+  { word: "legendary", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["iconic", "glorious"] },
+  { word: "lonely", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "loud", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["noisy", "rowdy"] },
+  { word: "magical", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true },
+  { word: "massive", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["gigantic", "immense"], antonyms: ["tiny"] },
+  { word: "melodic", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["noisy"] },
+  { word: "messy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["chaotic"], antonyms: ["tidy", "spotless", "orderly"] },
+  { word: "mighty", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["powerful"], antonyms: ["helpless"] },
+  { word: "moody", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["gloomy", "grumpy"] },
+  { word: "mysterious", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["puzzling"] },
+  { word: "nervous", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["jittery", "timid", "tense"] },
+  { word: "noisy", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["loud"] },
+  { word: "nostalgic", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["futuristic"] },
+  { word: "odd", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["alien", "zany"], antonyms: ["basic"] },
+  { word: "orderly", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["tidy"], antonyms: ["chaotic", "messy"] },
+  { word: "ornate", partOfSpeech: "adjective", tier: 3, tone: "positive", familyFriendly: true, antonyms: ["basic"] },
+  { word: "overwhelming", partOfSpeech: "adjective", tier: 3, tone: "negative", familyFriendly: true },
+  { word: "peaceful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, antonyms: ["chaotic", "hectic", "rowdy"] },
+  { word: "playful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["silly", "jaunty"] },
+  { word: "pointless", partOfSpeech: "adjective", tier: 3, tone: "negative", familyFriendly: true, synonyms: ["impractical"] },
+  { word: "polished", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["shiny", "spotless"], antonyms: ["rusty"] },
+  { word: "powerful", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["mighty"], antonyms: ["helpless"] },
+  { word: "prickly", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["spiky"] },
+  { word: "proud", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "puzzling", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, synonyms: ["mysterious", "tricky"] },
+  { word: "restless", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["impatient"] },
+  { word: "rigid", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["sturdy"], antonyms: ["flexible"] },
+  { word: "rough", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, synonyms: ["gritty", "harsh"], antonyms: ["smooth", "silky"] },
+  { word: "rowdy", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["loud", "chaotic", "wild"], antonyms: ["peaceful"] },
+  { word: "rusty", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, antonyms: ["polished", "shiny"] },
+  { word: "scattered", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, antonyms: ["orderly"] },
+  { word: "shallow", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "sharp", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["jagged", "spiky"] },
+  { word: "shiny", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["bright", "polished"], antonyms: ["rusty"] },
+  { word: "silky", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["smooth", "soft", "velvety"], antonyms: ["rough"] },
+  { word: "silly", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["playful", "zany"] },
+  { word: "sleepy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["lazy", "sluggish"], antonyms: ["energetic"] },
+  { word: "slippery", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, antonyms: ["sticky"] },
+  { word: "sluggish", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["lazy", "sleepy"], antonyms: ["speedy", "swift", "zippy"] },
+  { word: "smooth", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["silky"], antonyms: ["rough", "jagged"] },
+  { word: "soft", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["fluffy", "gentle", "squishy"], antonyms: ["rigid"] },
+  { word: "spacious", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["vast"] },
+  { word: "speedy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["swift", "zippy", "agile"], antonyms: ["sluggish"] },
+  { word: "spiky", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["prickly", "jagged", "sharp"] },
+  { word: "spooky", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["ghostly", "haunting"] },
+  { word: "spotless", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["tidy", "polished"], antonyms: ["messy"] },
+  { word: "squishy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["soft"], antonyms: ["rigid"] },
+  { word: "stale", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "steep", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true },
+  { word: "sticky", partOfSpeech: "adjective", tier: 1, tone: "negative", familyFriendly: true, antonyms: ["slippery"] },
+  { word: "sturdy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["rigid"], antonyms: ["flimsy", "fragile"] },
+  { word: "subtle", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, antonyms: ["dramatic", "intense"] },
+  { word: "suspicious", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true },
+  { word: "swift", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["speedy", "zippy", "agile"], antonyms: ["sluggish"] },
+  { word: "tangled", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["twisted"] },
+  { word: "tasty", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true },
+  { word: "tense", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["nervous"] },
+  { word: "thick", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, antonyms: ["thin"] },
+  { word: "thin", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["flimsy"], antonyms: ["thick"] },
+  { word: "thrilling", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "tidy", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["orderly", "spotless"], antonyms: ["messy"] },
+  { word: "timid", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["nervous"], antonyms: ["bold", "fearless"] },
+  { word: "tiny", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, antonyms: ["gigantic", "massive", "immense", "vast"] },
+  { word: "transparent", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["invisible"] },
+  { word: "tricky", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["puzzling"] },
+  { word: "twisted", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["tangled"] },
+  { word: "unsteady", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, antonyms: ["sturdy"] },
+  { word: "vague", partOfSpeech: "adjective", tier: 3, tone: "neutral", familyFriendly: true, synonyms: ["foggy"] },
+  { word: "vast", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["immense", "infinite", "spacious", "gigantic"], antonyms: ["tiny"] },
+  { word: "velvety", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["silky", "soft"] },
+  { word: "vibrant", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["colorful", "bright"] },
+  { word: "villainous", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, antonyms: ["heroic"] },
+  { word: "warm", partOfSpeech: "adjective", tier: 1, tone: "positive", familyFriendly: true, synonyms: ["cozy"], antonyms: ["icy"] },
+  { word: "watery", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true },
+  { word: "weightless", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["ethereal"] },
+  { word: "wild", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["rowdy", "chaotic"] },
+  { word: "windy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["breezy"] },
+  { word: "witty", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["clever"] },
+  { word: "youthful", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["ancient"] },
+  { word: "cringe", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["awkward"] },
+  { word: "wholesome", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, antonyms: ["edgy"] },
+  { word: "Chaotic Good", partOfSpeech: "phrase", tier: 3, tone: "positive", familyFriendly: true },
+  { word: "True Neutral", partOfSpeech: "phrase", tier: 3, tone: "neutral", familyFriendly: true },
+  { word: "Chaotic Evil", partOfSpeech: "phrase", tier: 3, tone: "negative", familyFriendly: true, synonyms: ["villainous"] },
+  { word: "edgy", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["rebellious"], antonyms: ["wholesome"] },
+  { word: "cyberpunk", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["futuristic", "dystopian"] },
+  { word: "sci-fi", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["futuristic"] },
+  { word: "dystopian", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["doomed"] },
+  { word: "underdog", partOfSpeech: "noun", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "rebellious", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, synonyms: ["edgy"] },
+  { word: "nerd", partOfSpeech: "noun", tier: 1, tone: "neutral", familyFriendly: true, antonyms: ["jock"] },
+  { word: "jock", partOfSpeech: "noun", tier: 1, tone: "neutral", familyFriendly: true, antonyms: ["nerd"] },
+  { word: "futuristic", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["sci-fi", "cyberpunk"], antonyms: ["ancient", "prehistoric", "nostalgic"] },
+  { word: "prehistoric", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["ancient"], antonyms: ["futuristic"] },
+  { word: "hardcore", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: false, synonyms: ["intense"] },
+  { word: "spicy", partOfSpeech: "adjective", tier: 1, tone: "neutral", familyFriendly: true, synonyms: ["fiery"] },
+  { word: "iconic", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["legendary"] },
+  { word: "underrated", partOfSpeech: "adjective", tier: 3, tone: "positive", familyFriendly: true, antonyms: ["overrated"] },
+  { word: "overrated", partOfSpeech: "adjective", tier: 3, tone: "negative", familyFriendly: true, antonyms: ["underrated"] },
+  { word: "doomed", partOfSpeech: "adjective", tier: 2, tone: "negative", familyFriendly: true, synonyms: ["dystopian"], antonyms: ["hopeful"] },
+  { word: "experimental", partOfSpeech: "adjective", tier: 2, tone: "neutral", familyFriendly: true, antonyms: ["basic"] },
+  { word: "impractical", partOfSpeech: "adjective", tier: 3, tone: "negative", familyFriendly: true, synonyms: ["pointless"] },
+  { word: "memes", partOfSpeech: "noun", tier: 2, tone: "positive", familyFriendly: true },
+  { word: "zany", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["silly", "odd"] },
+  { word: "zippy", partOfSpeech: "adjective", tier: 2, tone: "positive", familyFriendly: true, synonyms: ["speedy", "swift"], antonyms: ["sluggish"] },
+];
+
+export const BASE_ADJECTIVES: string[] = ADJECTIVES.map((entry) => entry.word);
+
+// How much of BASE_ADJECTIVES the daily pair scheduler draws from, and from
+// when. Newly appended adjectives only join the rotation once an entry with
+// their new length is added here; give it a start date far enough out that
+// no puzzle a player may already have seen changes. `addedOn` is the day the
+// entry was written: `npm run check:adjectives` rejects a start date that
+// players could already have been served by then. The first entry starts
+// with the scheduler (SCHEDULE_EPOCH in src/lib/puzzle.ts).
+export type AdjectivePoolRevision = {
+  from: string; // YYYY-MM-DD
+  addedOn: string; // YYYY-MM-DD
+  size: number;
+};
+
+export const ADJECTIVE_POOL_REVISIONS: AdjectivePoolRevision[] = [
+  { from: "2026-11-01", addedOn: "2026-10-19", size: 178 },
 ];
 
+// When the scheduler starts going by the metadata above, and corrections to
+// it since. Each revision's changes apply from its start date on, so days
+// before it keep their pairs. Once an adjective is in rotation, don't edit its
+// metadata in ADJECTIVES: add a revision here with the fixed fields, dated far
+// enough out that no puzzle a player may already have seen changes, and
+// note when it was added, as for pool revisions.
+export type AdjectiveMetadataRevision = {
+  from: string; // YYYY-MM-DD
+  addedOn: string; // YYYY-MM-DD
+  changes: Record<string, Partial<Omit<AdjectiveEntry, "word">>>; // by word
+};
+
+export const ADJECTIVE_METADATA_REVISIONS: AdjectiveMetadataRevision[] = [
+  { from: "2026-11-01", addedOn: "2026-10-19", changes: {} },
+];
+
+// ADJECTIVES as each metadata revision leaves it, in date order
+export function adjectiveMetadataRevisions(): Array<{ from: string; entries: AdjectiveEntry[] }> {
+  let entries = ADJECTIVES;
+  return [...ADJECTIVE_METADATA_REVISIONS]
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .map(({ from, changes }) => {
+      entries = entries.map((entry) => (changes[entry.word] ? { ...entry, ...changes[entry.word] } : entry));
+      return { from, entries };
+    });
+}
+
 // Deterministic daily selection based on date string (YYYY-MM-DD).
 // This is intentionally simple and local only – not a global daily seed.
 export function pickDailyAdjectives(
@@ -0,0 +1,15 @@
+// Placeholder categories suggested under the guess input ("Try a ...").
+// They're only a nudge; the judge is told not to hold them against anyone.
+
+export const PLACEHOLDER_CATEGORIES = [
+  "Cultural Icon",
+  "Whole Sentence",
+  "Sports Team",
+  "Organism",
+  "Philosophy",
+  "Scenario",
+  "Piece of Media",
+  "Organization",
+  "Piece of Technology",
+  "Product"
+];
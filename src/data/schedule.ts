@@ -0,0 +1,44 @@
+import type { GameRules } from "@/lib/gameRules";
+
+// Hand-picked puzzles for specific dates. A scheduled date uses these
+// adjectives (and categories and rules, if given) instead of the usual ones, for
+// the daily game and for archive replays alike; every other date keeps the
+// algorithm. Keyed by YYYY-MM-DD, whatever seed version deals the day.
+//
+// The pair scheduler keeps a curated date's adjectives off the two weeks
+// either side of it, so a new date also changes the days around it: add it
+// more than two weeks out.
+//
+// Adjectives (two to four, one pillar each) must come from BASE_ADJECTIVES. `npm run build` checks this file
+// first (scripts/checkSchedule.ts) and fails on a bad entry.
+
+export type ScheduledPuzzle = {
+  adjectives: string[];
+  // Placeholder categories, one per round; free text, shown as "Try a ..."
+  categories?: string[];
+  // A variant of the usual rules, e.g. { rounds: 5 } or { appeals: 2 }
+  rules?: Partial<GameRules>;
+  note?: string; // for whoever edits this file, never shown to players
+};
+
+export const PUZZLE_SCHEDULE: Record<string, ScheduledPuzzle> = {
+  "2026-10-31": {
+    adjectives: ["spooky", "cozy"],
+    categories: ["Costume", "Horror Movie", "Snack"],
+    note: "Halloween",
+  },
+  "2026-11-26": {
+    adjectives: ["nostalgic", "chaotic"],
+    categories: ["Family Tradition", "Dish", "Scenario"],
+    note: "Thanksgiving (US)",
+  },
+  "2026-12-25": {
+    adjectives: ["warm", "magical"],
+    note: "Christmas",
+  },
+  "2026-12-31": {
+    adjectives: ["hopeful", "rowdy"],
+    categories: ["Scenario", "Whole Sentence", "Cultural Icon"],
+    note: "New Year's Eve",
+  },
+};
@@ -1,144 +1,403 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { BASE_ADJECTIVES, pickDailyAdjectives } from "@/data/adjectives";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BASE_ADJECTIVES } from "@/data/adjectives";
+import { Challenge, decodeChallenge, sameChallenge } from "@/lib/challenge";
+import { advancePhase, GamePhase, PhaseEvent, resumePhase } from "@/lib/gamePhase";
+import { DEFAULT_GAME_RULES, GameRules, reviveRules } from "@/lib/gameRules";
+import { claimFor, mayClaim, mayReplace, mergeGames, RoundClaim, sameGame, thisTab } from "@/lib/gameSync";
+import {
+  emptyHistory,
+  HISTORY_STORAGE_KEY,
+  loadHistory,
+  mergeHistories,
+  PlayHistory,
+  recordResult,
+  resultFromState,
+  saveHistory,
+} from "@/lib/history";
+import type { PanelistVerdict } from "@/lib/panel";
+import { DEFAULT_PERSONA_ID, isPersonaId, PersonaId } from "@/lib/personas";
+import {
+  archiveKeyFor,
+  dailyAdjectivesFor,
+  dailyRulesFor,
+  isTodaysPuzzle,
+  MAX_ADJECTIVES,
+  MIN_ADJECTIVES,
+  PuzzleRef,
+  todayKey,
+} from "@/lib/puzzle";
+import { requestScore } from "@/lib/scoreClient";
+import { appealDeltaFor, GameScore, scoreGame } from "@/lib/scoring";
+import { loadVersioned, migrationsFrom, saveVersioned, VersionedStore } from "@/lib/storage";
 
 export type GuessResult = {
   noun: string;
-  scores?: [number, number]; // [score1, score2] for the two adjectives
-  reasonings?: [string, string]; // [reasoning1, reasoning2] - one explanation per adjective
+  scores?: number[]; // one score per adjective, in the puzzle's order
+  reasonings?: string[]; // one explanation per adjective
   appealed?: boolean;
   // If this guess was appealed, how many points (if any)
   // were added by the appeal. 0 or undefined means the
   // appeal did not change the scores.
-  appealDelta?: [number, number]; // [delta1, delta2]
+  appealDelta?: number[]; // per adjective
   isPass?: boolean;
+  // Signed verdict from the server, required to appeal this guess.
+  receipt?: string;
+  // Individual verdicts when the guess was scored in panel mode
+  panel?: PanelistVerdict[];
+  // Scoring failed and the player chose to stop waiting (or the server
+  // refused it for good); the guess counts as zero.
+  scoringGivenUp?: boolean;
 };
 
-export type GameMode = "daily" | "debug-random";
+// A guess that was recorded but couldn't be scored yet. Everything needed to
+// re-send the original request is kept so retries survive a reload.
+export type PendingScoring = {
+  roundIndex: number;
+  noun: string;
+  previousNouns: string[];
+  placeholderCategory?: string;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+};
+
+export type GameMode = "daily" | "archive" | "debug-random" | "challenge";
 
 export type GameState = {
   mode: GameMode;
-  dateKey: string; // YYYY-MM-DD for daily mode
-  adjectives: [string, string]; // exactly 2 adjectives
-  guesses: GuessResult[]; // 3 guesses for the single combined category
-  currentTurnIndex: number; // 0..2
-  appealsRemaining: number; // starts at 1
+  dateKey: string; // daily key of the puzzle's date in daily and archive mode
+  adjectives: string[]; // MIN_ADJECTIVES..MAX_ADJECTIVES, one pillar each
+  guesses: GuessResult[]; // one guess per round
+  currentTurnIndex: number; // 0..rules.rounds - 1, rules.rounds once the game is over
+  phase: GamePhase; // where play is within the turn, see src/lib/gamePhase.ts
+  appealsRemaining: number; // starts at rules.appeals
+  scoringQueue: PendingScoring[];
+  persona: PersonaId; // judge voice for scoring and appeals
+  panelMode: boolean; // score with a panel of judges and take the median
+  challenge?: Challenge; // the friend's result, in challenge mode
+  rules: GameRules; // fixed when the game starts
+  claim?: RoundClaim; // the round a tab is scoring, see src/lib/gameSync.ts
+  generation?: number; // bumped by each reset of the game, see src/lib/gameSync.ts
 };
 
 const DAILY_STORAGE_KEY = "off-the-charts-game-v2";
+// Challenges and archive games get their own slots so playing one never
+// clobbers the daily game.
+const CHALLENGE_STORAGE_KEY = "off-the-charts-challenge-v1";
+const ARCHIVE_STORAGE_KEY = "off-the-charts-archive-v1";
+
+function storageKeyFor(mode: GameMode): string {
+  if (mode === "challenge") return CHALLENGE_STORAGE_KEY;
+  if (mode === "archive") return ARCHIVE_STORAGE_KEY;
+  return DAILY_STORAGE_KEY;
+}
+
+// A saved game at each version, as far as the migrations need to know.
+// Nothing is trusted until reviveState has checked the up-to-date save.
+type SavedGuessV0 = { scores?: unknown; reasonings?: unknown; [field: string]: unknown } | null;
+type SavedGameV0 = { adjectives?: unknown; guesses?: unknown; [field: string]: unknown } | null;
+type SavedGameV1 = SavedGameV0; // at most two adjectives
+type SavedGameV2 = (NonNullable<SavedGameV1> & { rules: GameRules }) | null;
 
-// Bump this version to force a fresh daily puzzle for a given date.
-// Changing it changes both:
-// - the seed passed into pickDailyAdjectives
-// - the dateKey stored in localStorage, so old games are discarded
-const DAILY_SEED_VERSION = 6;
+// Saved games are upgraded through these in order (see src/lib/storage.ts).
+// Changing GameState in a way old saves don't satisfy means appending one.
+const GAME_MIGRATIONS = migrationsFrom<SavedGameV0>()
+  // 0 -> 1: saves from before versioned storage. The original format had
+  // three adjectives; the third one (and its column of scores) is dropped so
+  // the game still loads, and a finished one can still reach the history.
+  .then((value): SavedGameV1 => {
+    if (!value || !Array.isArray(value.adjectives) || value.adjectives.length !== 3) return value;
+    return {
+      ...value,
+      adjectives: value.adjectives.slice(0, 2),
+      guesses: Array.isArray(value.guesses)
+        ? value.guesses.map((g: SavedGuessV0) => ({
+            ...g,
+            scores: Array.isArray(g?.scores) ? g.scores.slice(0, 2) : undefined,
+            reasonings: Array.isArray(g?.reasonings) ? g.reasonings.slice(0, 2) : undefined,
+          }))
+        : value.guesses,
+    };
+  })
+  // 1 -> 2: rules became part of the game; everything before ran on the defaults
+  .then((value): SavedGameV2 => (value ? { ...value, rules: DEFAULT_GAME_RULES } : value)).steps;
 
-function todayKey() {
-  const base = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-  return `${base}-v${DAILY_SEED_VERSION}`;
+function gameStore(mode: GameMode): VersionedStore<GameState> {
+  return { key: storageKeyFor(mode), migrations: GAME_MIGRATIONS, revive: reviveState };
 }
 
-function emptyGuesses(): GuessResult[] {
-  return Array.from({ length: 3 }, () => ({ noun: "" }));
+// Retry backoff for unscored guesses: 2s, 4s, 8s, ... capped at a minute.
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60_000;
+
+// How often an open page checks whether the daily puzzle has rolled over
+const ROLLOVER_CHECK_MS = 30_000;
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
 }
 
-function createNewDailyState(): GameState {
-  const dateKey = todayKey();
-  const selected = pickDailyAdjectives(dateKey, 2, BASE_ADJECTIVES);
-  if (selected.length !== 2) {
-    throw new Error("Expected exactly 2 adjectives");
-  }
+// Identifies a game to the server, which derives the adjectives itself.
+function puzzleRefFor(state: GameState): PuzzleRef {
+  return state.mode === "daily" || state.mode === "archive"
+    ? { mode: state.mode, dateKey: state.dateKey }
+    : { mode: state.mode, adjectives: state.adjectives };
+}
+
+function emptyGuesses(rules: GameRules): GuessResult[] {
+  return Array.from({ length: rules.rounds }, () => ({ noun: "" }));
+}
+
+type JudgeSettings = Pick<GameState, "persona" | "panelMode">;
+
+const DEFAULT_JUDGE_SETTINGS: JudgeSettings = {
+  persona: DEFAULT_PERSONA_ID,
+  panelMode: false,
+};
+
+function createNewDailyState(judge: JudgeSettings = DEFAULT_JUDGE_SETTINGS): GameState {
+  return createDatedState("daily", todayKey(), judge);
+}
+
+function createDatedState(mode: "daily" | "archive", dateKey: string, judge: JudgeSettings): GameState {
+  const rules = dailyRulesFor(dateKey);
   return {
-    mode: "daily",
+    mode,
     dateKey,
-    adjectives: [selected[0], selected[1]],
-    guesses: emptyGuesses(),
+    adjectives: dailyAdjectivesFor(dateKey),
+    guesses: emptyGuesses(rules),
     currentTurnIndex: 0,
-    appealsRemaining: 1,
+    phase: { kind: "awaiting-input" },
+    appealsRemaining: rules.appeals,
+    scoringQueue: [],
+    persona: judge.persona,
+    panelMode: judge.panelMode,
+    rules,
   };
 }
 
+function createChallengeState(challenge: Challenge, judge: JudgeSettings): GameState {
+  return {
+    mode: "challenge",
+    dateKey: todayKey(),
+    adjectives: challenge.adjectives,
+    guesses: emptyGuesses(challenge.rules),
+    currentTurnIndex: 0,
+    phase: { kind: "awaiting-input" },
+    appealsRemaining: challenge.rules.appeals,
+    scoringQueue: [],
+    persona: judge.persona,
+    panelMode: judge.panelMode,
+    challenge,
+    rules: challenge.rules,
+  };
+}
+
+// Challenge and archive slots hold one game each; the stored game is resumed
+// if it's the same puzzle, otherwise the fresh one replaces it.
+function resumeOrStart(fresh: GameState, isSame: (stored: GameState) => boolean): GameState {
+  const loaded = loadVersioned(gameStore(fresh.mode));
+  if (loaded.status === "ok" && loaded.value.mode === fresh.mode && isSame(loaded.value)) {
+    return loaded.value;
+  }
+  return fresh;
+}
+
+function loadChallengeState(challenge: Challenge, judge: JudgeSettings): GameState {
+  return resumeOrStart(
+    createChallengeState(challenge, judge),
+    (stored) => !!stored.challenge && sameChallenge(stored.challenge, challenge),
+  );
+}
+
+function loadArchiveState(day: string, judge: JudgeSettings): GameState {
+  const dateKey = archiveKeyFor(day);
+  return resumeOrStart(
+    createDatedState("archive", dateKey, judge),
+    (stored) => stored.dateKey === dateKey,
+  );
+}
+
+type DailySlot = {
+  state: GameState | null; // today's game, if one is in progress
+  judge: JudgeSettings;
+  history: PlayHistory;
+};
+
+// A daily slot saved by a newer build loads as empty; the game played instead
+// is never written over it.
+function loadDailySlot(history: PlayHistory): DailySlot {
+  const loaded = loadVersioned(gameStore("daily"));
+  if (loaded.status !== "ok") return { state: null, judge: DEFAULT_JUDGE_SETTINGS, history };
+
+  const parsed = loaded.value;
+  // The judge settings the player picked carry over into the next day's game
+  const judge = { persona: parsed.persona, panelMode: parsed.panelMode };
+  if (parsed.mode === "daily" && isTodaysPuzzle(parsed.dateKey)) {
+    return { state: parsed, judge, history };
+  }
+  // A finished game from an earlier day is about to be replaced; make sure it
+  // made it into the history first.
+  const result =
+    parsed.currentTurnIndex >= parsed.rules.rounds && parsed.scoringQueue.length === 0
+      ? resultFromState(parsed)
+      : null;
+  if (result) {
+    const recorded = recordResult(history, result);
+    if (recorded !== history) saveHistory(recorded);
+    return { state: null, judge, history: recorded };
+  }
+  return { state: null, judge, history };
+}
+
 function reviveState(raw: unknown): GameState | null {
   if (!raw || typeof raw !== "object") return null;
   const value = raw as any;
-  // Support both old format (3 adjectives) and new format (2 adjectives)
+  // Older formats have been migrated by now (see GAME_MIGRATIONS)
   if (!Array.isArray(value.adjectives)) return null;
-  if (value.adjectives.length === 2) {
-    // New format
+  if (value.adjectives.length >= MIN_ADJECTIVES && value.adjectives.length <= MAX_ADJECTIVES) {
     if (!Array.isArray(value.guesses)) return null;
+    const rules = reviveRules(value.rules);
+    // One guess per round, whatever was saved
+    const guesses = Array.from(
+      { length: rules.rounds },
+      (_, i): GuessResult => (value.guesses[i] as GuessResult | undefined) ?? { noun: "" },
+    );
+    const currentTurnIndex = typeof value.currentTurnIndex === "number" ? value.currentTurnIndex : 0;
     return {
       mode: (value.mode as GameMode) || "daily",
       dateKey: typeof value.dateKey === "string" ? value.dateKey : todayKey(),
-      adjectives: [value.adjectives[0], value.adjectives[1]] as [string, string],
-      guesses: value.guesses as GuessResult[],
-      currentTurnIndex:
-        typeof value.currentTurnIndex === "number" ? value.currentTurnIndex : 0,
+      adjectives: [...value.adjectives] as string[],
+      guesses,
+      currentTurnIndex,
+      phase: resumePhase({ currentTurnIndex, guesses, rules }, value.phase, Date.now()),
       appealsRemaining:
         typeof value.appealsRemaining === "number"
           ? value.appealsRemaining
-          : 1,
+          : rules.appeals,
+      scoringQueue: Array.isArray(value.scoringQueue)
+        ? (value.scoringQueue as PendingScoring[])
+        : [],
+      persona: isPersonaId(value.persona) ? value.persona : DEFAULT_PERSONA_ID,
+      panelMode: value.panelMode === true,
+      challenge:
+        value.mode === "challenge" && Array.isArray(value.challenge?.rounds)
+          ? { ...(value.challenge as Challenge), rules }
+          : undefined,
+      rules,
+      // This tab's own claim went with the request it was for
+      claim:
+        typeof value.claim?.roundIndex === "number" &&
+        typeof value.claim.at === "number" &&
+        value.claim.tab !== thisTab()
+          ? (value.claim as RoundClaim)
+          : undefined,
+      generation: typeof value.generation === "number" ? value.generation : 0,
     };
   }
-  // Old format - reject it to force a new game
   return null;
 }
 
-export function useDailyGameState() {
+// Pass a challenge link payload to play that challenge instead of the daily game.
+export function useDailyGameState(challengePayload?: string) {
   const [state, setState] = useState<GameState | null>(null);
+  const [history, setHistory] = useState<PlayHistory>(emptyHistory);
 
   // Load from localStorage on mount
   useEffect(() => {
     if (typeof window === "undefined") return;
-    try {
-      const stored = window.localStorage.getItem(DAILY_STORAGE_KEY);
-      if (stored) {
-        const parsed = reviveState(JSON.parse(stored));
-        if (parsed && parsed.mode === "daily" && parsed.dateKey === todayKey()) {
-          setState(parsed);
-          return;
-        }
-      }
-    } catch (e) {
-      console.warn("Failed to load Off the Charts state from localStorage", e);
+    const challenge = challengePayload ? decodeChallenge(challengePayload) : null;
+    const daily = loadDailySlot(loadHistory());
+    setHistory(daily.history);
+    if (challenge) {
+      setState(loadChallengeState(challenge, daily.judge));
+    } else {
+      setState(daily.state ?? createNewDailyState(daily.judge));
     }
+  }, [challengePayload]);
 
-    setState(createNewDailyState());
-  }, []);
-
-  // Persist whenever state changes
+  // Persist whenever state changes. Another tab may have saved progress this
+  // one hasn't heard about yet; it's merged in rather than written over.
   useEffect(() => {
     if (!state || typeof window === "undefined") return;
-    try {
-      window.localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(state));
-    } catch (e) {
-      console.warn("Failed to persist Off the Charts state", e);
+    const store = gameStore(state.mode);
+    const stored = loadVersioned(store);
+    if (stored.status !== "ok") {
+      saveVersioned(store, state);
+    } else if (sameGame(stored.value, state)) {
+      saveVersioned(store, mergeGames(state, stored.value));
+    } else if (mayReplace(stored.value, state)) {
+      saveVersioned(store, state);
     }
   }, [state]);
 
+  // Pick up what other tabs save. The game only syncs while both tabs are on
+  // the same puzzle; history always does.
+  const mode = state?.mode;
+  useEffect(() => {
+    if (!mode) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === HISTORY_STORAGE_KEY) {
+        const stored = loadHistory();
+        setHistory((prev) => {
+          // Write back anything the other tab's save dropped
+          const merged = mergeHistories(stored, prev);
+          if (merged !== stored) saveHistory(merged);
+          return merged;
+        });
+        return;
+      }
+      if (e.key !== storageKeyFor(mode)) return;
+      const loaded = loadVersioned(gameStore(mode));
+      if (loaded.status !== "ok") return;
+      const remote = loaded.value;
+      setState((prev) => (prev && sameGame(prev, remote) ? mergeGames(prev, remote) : prev));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [mode]);
+
   const isLoaded = !!state;
 
   const currentTurn = useMemo(() => {
     if (!state) return null;
-    const idx = Math.min(Math.max(state.currentTurnIndex, 0), 2);
+    const idx = Math.min(Math.max(state.currentTurnIndex, 0), state.rules.rounds - 1);
     return { idx, roundIndex: idx };
   }, [state]);
 
   const isComplete = useMemo(() => {
     if (!state) return false;
-    return state.currentTurnIndex >= 3;
+    return state.currentTurnIndex >= state.rules.rounds;
   }, [state]);
 
-  const totalScore = useMemo(() => {
-    if (!state) return 0;
-    // Best combined score (score1 + score2) across all guesses
-    return state.guesses.reduce((best, g) => {
-      if (!g.scores) return best;
-      const combined = g.scores[0] + g.scores[1];
-      return Math.max(best, combined);
-    }, 0);
+  const puzzleRef = useMemo((): PuzzleRef | null => {
+    if (!state) return null;
+    return puzzleRefFor(state);
   }, [state]);
 
+  const pendingScoringCount = state?.scoringQueue.length ?? 0;
+
+  // The result only counts as final once every guess has been scored or
+  // explicitly given up on.
+  const isFinal = isComplete && pendingScoringCount === 0;
+
+  // Copy finished daily games into the history log. This re-runs after an
+  // appeal, so the logged result always matches the end screen.
+  useEffect(() => {
+    if (!state || !isFinal) return;
+    const result = resultFromState(state);
+    if (!result) return;
+    setHistory((prev) => {
+      const next = recordResult(prev, result);
+      if (next !== prev) saveHistory(next);
+      return next;
+    });
+  }, [state, isFinal]);
+
+  // Everything the game screen shows about scores, see src/lib/scoring.ts
+  const score = useMemo<GameScore | null>(() => (state ? scoreGame(state) : null), [state]);
+
   const submitGuessLocally = useCallback(
     (roundIndex: number, noun: string) => {
       setState((prev) => {
@@ -161,11 +420,11 @@ export function useDailyGameState() {
         const guesses = prev.guesses.map((g, ri) => {
           // The explicit pass the player just chose
           if (ri === roundIndex) {
-            return { ...g, noun: g.noun || "PASS", scores: [0, 0] as [number, number], isPass: true };
+            return { ...g, noun: g.noun || "PASS", scores: prev.adjectives.map(() => 0), isPass: true };
           }
           // Auto-pass any remaining unanswered rounds
           if (ri > roundIndex && !g.noun && !g.isPass) {
-            return { ...g, noun: "PASS", scores: [0, 0] as [number, number], isPass: true };
+            return { ...g, noun: "PASS", scores: prev.adjectives.map(() => 0), isPass: true };
           }
           return g;
         });
@@ -175,36 +434,45 @@ export function useDailyGameState() {
     [],
   );
 
-  const advanceTurn = useCallback(() => {
+  // Moves play along (see src/lib/gamePhase.ts). Events that aren't legal in
+  // the current phase are dropped, e.g. a pass while a guess is being scored.
+  // Leaving the scoring phase gives up this tab's claim on the round.
+  const dispatchPhase = useCallback((event: PhaseEvent) => {
     setState((prev) => {
       if (!prev) return prev;
-      const maxTurns = 3;
-      let nextTurnIndex = prev.currentTurnIndex + 1;
-      // Skip passes
-      while (nextTurnIndex < maxTurns) {
-        const guess = prev.guesses[nextTurnIndex];
-        if (guess?.isPass) {
-          nextTurnIndex++;
-          continue;
-        }
-        break;
-      }
-      nextTurnIndex = Math.min(nextTurnIndex, maxTurns);
-      return { ...prev, currentTurnIndex: nextTurnIndex };
+      const next = advancePhase(prev, event);
+      if (!next) return prev;
+      const released = prev.phase.kind === "scoring" && next.phase.kind !== "scoring" && next.claim?.tab === thisTab();
+      return released ? { ...next, claim: undefined } : next;
     });
   }, []);
 
+  // The reveal is the only phase that ends on a timer. The timer belongs to
+  // the phase, so moving on any other way (a reset, another game) cancels it,
+  // and a reveal resumed after a reload only waits out what was left of it.
+  const revealUntil = state?.phase.kind === "revealing" ? state.phase.until : null;
+  useEffect(() => {
+    if (revealUntil === null) return;
+    const timeoutId = window.setTimeout(
+      () => dispatchPhase({ type: "revealed" }),
+      Math.max(0, revealUntil - Date.now()),
+    );
+    return () => window.clearTimeout(timeoutId);
+  }, [revealUntil, dispatchPhase]);
+
   const applyScore = useCallback(
     (
       roundIndex: number,
-      scores: [number, number],
-      reasonings: [string, string],
+      scores: number[],
+      reasonings: string[],
+      receipt?: string,
+      panel?: PanelistVerdict[],
     ) => {
       setState((prev) => {
         if (!prev) return prev;
         const guesses = prev.guesses.map((g, ri) =>
           ri === roundIndex
-            ? { ...g, scores, reasonings }
+            ? { ...g, scores, reasonings, receipt, panel }
             : g,
         );
 
@@ -217,17 +485,14 @@ export function useDailyGameState() {
   const applyAppealResult = useCallback(
     (
       roundIndex: number,
-      newScores: [number, number],
-      newReasonings: [string, string],
+      newScores: number[],
+      newReasonings: string[],
       appealTokenConsumed: boolean,
+      receipt?: string,
     ) => {
       setState((prev) => {
         if (!prev) return prev;
-        const previousScores = prev.guesses[roundIndex]?.scores ?? [0, 0];
-        const delta: [number, number] = [
-          Math.max(0, newScores[0] - previousScores[0]),
-          Math.max(0, newScores[1] - previousScores[1]),
-        ];
+        const delta = appealDeltaFor(prev.guesses[roundIndex]?.scores, newScores);
 
         const guesses = prev.guesses.map((g, ri) =>
           ri === roundIndex
@@ -237,6 +502,7 @@ export function useDailyGameState() {
                 reasonings: newReasonings,
                 appealed: true,
                 appealDelta: delta,
+                receipt: receipt ?? g.receipt,
               }
             : g,
         );
@@ -249,39 +515,269 @@ export function useDailyGameState() {
     [],
   );
 
+  const enqueueScoring = useCallback(
+    (entry: Omit<PendingScoring, "attempts" | "nextAttemptAt">) => {
+      setState((prev) => {
+        if (!prev) return prev;
+        const scoringQueue = [
+          ...prev.scoringQueue.filter((p) => p.roundIndex !== entry.roundIndex),
+          { ...entry, attempts: 1, nextAttemptAt: Date.now() + retryDelay(1) },
+        ];
+        return { ...prev, scoringQueue };
+      });
+    },
+    [],
+  );
+
+  const giveUpScoring = useCallback((roundIndex: number) => {
+    setState((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        guesses: prev.guesses.map((g, ri) =>
+          ri === roundIndex && !g.scores ? { ...g, scoringGivenUp: true } : g,
+        ),
+        scoringQueue: prev.scoringQueue.filter((p) => p.roundIndex !== roundIndex),
+      };
+    });
+  }, []);
+
+  // Retry processing reads the latest state through a ref so timers and
+  // event listeners never act on a stale snapshot.
+  const stateRef = useRef<GameState | null>(null);
+  stateRef.current = state;
+  const retryInFlightRef = useRef(false);
+
+  // Claims the round for this tab before its guess goes to the judge. The
+  // claim is checked against and written to storage right away, not on the
+  // next render, so a second tab can't slip a different answer in between.
+  // False if another tab got there first.
+  const claimRound = useCallback((roundIndex: number): boolean => {
+    const current = stateRef.current;
+    if (!current) return false;
+    const store = gameStore(current.mode);
+    const stored = loadVersioned(store);
+    const latest =
+      stored.status === "ok" && sameGame(stored.value, current) ? mergeGames(current, stored.value) : current;
+    if (!mayClaim(latest, roundIndex)) {
+      if (latest !== current) setState((prev) => (prev && sameGame(prev, latest) ? mergeGames(prev, latest) : prev));
+      return false;
+    }
+    const claim = claimFor(roundIndex);
+    saveVersioned(store, { ...latest, claim });
+    setState((prev) => (prev && sameGame(prev, latest) ? { ...mergeGames(prev, latest), claim } : prev));
+    return true;
+  }, []);
+
+  // The fresh game goes out with the next generation, so neither this tab's
+  // save nor any other tab merges the old progress back in; the others start
+  // over too once they hear about it.
   const resetDaily = useCallback(() => {
-    setState(createNewDailyState());
+    const current = stateRef.current;
+    const store = gameStore("daily");
+    const stored = loadVersioned(store);
+    const generation = Math.max(
+      stored.status === "ok" ? stored.value.generation ?? 0 : 0,
+      current?.mode === "daily" ? current.generation ?? 0 : 0,
+    );
+    const next = { ...createNewDailyState(current ?? undefined), generation: generation + 1 };
+    saveVersioned(store, next);
+    setState(next);
+  }, []);
+
+  const processScoringQueue = useCallback(async (force: boolean) => {
+    const current = stateRef.current;
+    if (!current || retryInFlightRef.current) return;
+    const now = Date.now();
+    const due = current.scoringQueue.filter((p) => force || p.nextAttemptAt <= now);
+    if (due.length === 0) return;
+
+    retryInFlightRef.current = true;
+    try {
+      const puzzle = puzzleRefFor(current);
+      const gameKeyOf = (game: GameState) =>
+        `${game.mode}:${game.dateKey}:${game.adjectives.join("|")}:${game.generation ?? 0}`;
+      const gameKey = gameKeyOf(current);
+      for (const entry of due) {
+        const outcome = await requestScore({
+          puzzle,
+          noun: entry.noun,
+          previousNouns: entry.previousNouns,
+          placeholderCategory: entry.placeholderCategory,
+          persona: current.persona,
+          panel: current.panelMode,
+        });
+
+        setState((prev) => {
+          if (!prev) return prev;
+          // Ignore results that land after a different game was loaded, or
+          // this one was reset
+          if (gameKeyOf(prev) !== gameKey) return prev;
+          const scoringQueue = prev.scoringQueue.filter((p) => p.roundIndex !== entry.roundIndex);
+
+          if (outcome.kind === "scored") {
+            const { data } = outcome;
+            const guesses = prev.guesses.map((g, ri) =>
+              ri === entry.roundIndex
+                ? {
+                    ...g,
+                    scores: data.scores,
+                    reasonings: prev.adjectives.map((_, i) => data.reasonings?.[i] || ""),
+                    receipt: data.receipt,
+                    panel: data.panel,
+                  }
+                : g,
+            );
+            return { ...prev, guesses, scoringQueue };
+          }
+
+          if (outcome.kind === "rejected" || outcome.kind === "expired") {
+            const guesses = prev.guesses.map((g, ri) =>
+              ri === entry.roundIndex ? { ...g, scoringGivenUp: true } : g,
+            );
+            return { ...prev, guesses, scoringQueue };
+          }
+
+          const attempts = entry.attempts + 1;
+          return {
+            ...prev,
+            scoringQueue: [
+              ...scoringQueue,
+              { ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) },
+            ],
+          };
+        });
+      }
+    } finally {
+      retryInFlightRef.current = false;
+    }
   }, []);
 
+  const retryScoringNow = useCallback(() => {
+    void processScoringQueue(true);
+  }, [processScoringQueue]);
+
+  // Schedule the next retry for whichever pending guess is due first. This
+  // also covers reloads: entries whose time has passed are retried right away.
+  const nextRetryAt = state?.scoringQueue.reduce(
+    (earliest, p) => Math.min(earliest, p.nextAttemptAt),
+    Infinity,
+  );
+  useEffect(() => {
+    if (nextRetryAt === undefined || !Number.isFinite(nextRetryAt)) return;
+    const timeoutId = window.setTimeout(() => {
+      void processScoringQueue(false);
+    }, Math.max(0, nextRetryAt - Date.now()));
+    return () => window.clearTimeout(timeoutId);
+  }, [nextRetryAt, processScoringQueue]);
+
+  // Coming back online is a good moment to retry everything immediately.
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const onOnline = () => {
+      void processScoringQueue(true);
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [processScoringQueue]);
+
+  // Give pending guesses one more immediate attempt before the end screen.
+  useEffect(() => {
+    if (isComplete) {
+      void processScoringQueue(true);
+    }
+  }, [isComplete, processScoringQueue]);
+
+  const setPersona = useCallback((persona: PersonaId) => {
+    setState((prev) => (prev ? { ...prev, persona } : prev));
+  }, []);
+
+  const setPanelMode = useCallback((panelMode: boolean) => {
+    setState((prev) => (prev ? { ...prev, panelMode } : prev));
+  }, []);
+
+  // Replays a past day's puzzle. The daily game stays in its own slot and
+  // picks up where it was left on the way back.
+  const playArchive = useCallback((day: string) => {
+    setState((prev) => loadArchiveState(day, prev ?? DEFAULT_JUDGE_SETTINGS));
+  }, []);
+
+  const backToDaily = useCallback(() => {
+    const daily = loadDailySlot(loadHistory());
+    setHistory(daily.history);
+    setState(daily.state ?? createNewDailyState(daily.judge));
+  }, []);
+
+  // The puzzle can roll over while the page is open. The daily game on screen
+  // stays playable (the server still scores it for a day) until the player
+  // moves on with backToDaily.
+  const [newPuzzleOut, setNewPuzzleOut] = useState(false);
+  const dailyKey = state?.mode === "daily" ? state.dateKey : null;
+  useEffect(() => {
+    if (!dailyKey) {
+      setNewPuzzleOut(false);
+      return;
+    }
+    const check = () => setNewPuzzleOut(!isTodaysPuzzle(dailyKey));
+    check();
+    const intervalId = window.setInterval(check, ROLLOVER_CHECK_MS);
+    // Timers are throttled in background tabs (and stop while asleep)
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, [dailyKey]);
+
   const forceRandomDebugGame = useCallback(() => {
+    // Any size of puzzle, so the three and four pillar boards get played too
+    const count = MIN_ADJECTIVES + Math.floor(Math.random() * (MAX_ADJECTIVES - MIN_ADJECTIVES + 1));
     const selected = [...BASE_ADJECTIVES]
       .sort(() => Math.random() - 0.5)
-      .slice(0, 2);
-    if (selected.length !== 2) {
-      throw new Error("Expected exactly 2 adjectives");
+      .slice(0, count);
+    if (selected.length !== count) {
+      throw new Error(`Expected exactly ${count} adjectives`);
     }
-    setState({
+    setState((prev) => ({
       mode: "debug-random",
       dateKey: todayKey(),
-      adjectives: [selected[0], selected[1]] as [string, string],
-      guesses: emptyGuesses(),
+      adjectives: selected,
+      guesses: emptyGuesses(DEFAULT_GAME_RULES),
       currentTurnIndex: 0,
-      appealsRemaining: 1,
-    });
+      phase: { kind: "awaiting-input" },
+      appealsRemaining: DEFAULT_GAME_RULES.appeals,
+      scoringQueue: [],
+      persona: prev?.persona ?? DEFAULT_PERSONA_ID,
+      panelMode: prev?.panelMode ?? false,
+      rules: DEFAULT_GAME_RULES,
+    }));
   }, []);
 
   return {
     state,
     isLoaded,
     isComplete,
+    isFinal,
     currentTurn,
-    totalScore,
+    puzzleRef,
+    pendingScoringCount,
+    score,
+    history,
     submitGuessLocally,
     submitPassLocally,
-    advanceTurn,
+    dispatchPhase,
+    claimRound,
     applyScore,
     applyAppealResult,
+    enqueueScoring,
+    giveUpScoring,
+    retryScoringNow,
+    setPersona,
+    setPanelMode,
     resetDaily,
+    playArchive,
+    backToDaily,
+    newPuzzleOut,
     forceRandomDebugGame,
   } as const;
 }
@@ -0,0 +1,173 @@
+// Pure answer checks shared by the Game component (for instant feedback) and
+// /api/score (so calling the API directly can't skip them).
+
+export const MAX_ANSWER_LENGTH = 64;
+
+export type AnswerRejection =
+  | { reason: "empty" }
+  | { reason: "too_long"; maxLength: number }
+  // The whole answer is just the adjective, an inflection of it, or the
+  // adjective give or take a couple of characters.
+  | { reason: "category_echo"; adjective: string }
+  // The adjective (or an inflection) appears as a word inside the answer.
+  | { reason: "contains_adjective"; adjective: string }
+  // Same answer as an earlier round once articles, plurals, case and
+  // punctuation are ignored.
+  | { reason: "duplicate"; previous: string };
+
+export type AnswerValidation =
+  | { ok: true; answer: string }
+  | { ok: false; rejection: AnswerRejection };
+
+const ARTICLES = new Set(["a", "an", "the"]);
+
+// Suffixes that turn an adjective into another form of the same word:
+// plurals, comparatives, "-ness", "-ly", "-y" and so on.
+const INFLECTION_SUFFIXES = [
+  "s",
+  "es",
+  "ness",
+  "ly",
+  "ally",
+  "er",
+  "est",
+  "ed",
+  "ing",
+  "ish",
+  "y",
+  "ity",
+];
+
+// Lowercase, strip accents and punctuation, collapse whitespace.
+export function normalizeAnswer(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokenize(value: string): string[] {
+  const normalized = normalizeAnswer(value);
+  return normalized ? normalized.split(" ") : [];
+}
+
+// Stems an inflected form may be built on: "happy" -> "happi" (happiness),
+// "gentle" -> "gentl" (gently), "big" -> "bigg" (bigger).
+function inflectionRoots(word: string): string[] {
+  const roots = [word];
+  if (word.endsWith("y")) roots.push(`${word.slice(0, -1)}i`);
+  if (word.endsWith("e")) roots.push(word.slice(0, -1));
+  if (/[^aeiou][aeiou][bdgkmnprt]$/.test(word)) roots.push(word + word.slice(-1));
+  return roots;
+}
+
+function isInflectionOf(token: string, word: string): boolean {
+  if (token === word) return true;
+  return inflectionRoots(word).some(
+    (root) =>
+      token.startsWith(root) && INFLECTION_SUFFIXES.includes(token.slice(root.length)),
+  );
+}
+
+// Multi-word adjectives ("Chaotic Good") match when every word appears in
+// order as consecutive tokens of the answer.
+function findAdjectiveTokens(tokens: string[], adjective: string): boolean {
+  const adjectiveTokens = tokenize(adjective);
+  if (adjectiveTokens.length === 0 || adjectiveTokens.length > tokens.length) return false;
+  for (let start = 0; start + adjectiveTokens.length <= tokens.length; start++) {
+    const matches = adjectiveTokens.every((word, offset) =>
+      isInflectionOf(tokens[start + offset], word),
+    );
+    if (matches) return true;
+  }
+  return false;
+}
+
+function isCategoryEcho(answer: string, tokens: string[], adjective: string): boolean {
+  const compactAnswer = answer.replace(/ /g, "");
+  const compactAdjective = normalizeAnswer(adjective).replace(/ /g, "");
+  if (!compactAdjective) return false;
+
+  // The original rule: the same word, or the same word give or take up to two
+  // characters at the end ("spook" for "spooky").
+  const sharesPrefix =
+    compactAnswer.startsWith(compactAdjective) || compactAdjective.startsWith(compactAnswer);
+  if (sharesPrefix && Math.abs(compactAnswer.length - compactAdjective.length) <= 2) {
+    return true;
+  }
+
+  const contentTokens = tokens.filter((t) => !ARTICLES.has(t));
+  return (
+    contentTokens.length === tokenize(adjective).length &&
+    findAdjectiveTokens(contentTokens, adjective)
+  );
+}
+
+function singularize(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && /(ches|shes|sses|xes|zes)$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+// Key used to spot near-duplicate answers: "dog", "a dog" and "Dogs!" all
+// reduce to "dog".
+export function answerKey(value: string): string {
+  return tokenize(value)
+    .filter((t) => !ARTICLES.has(t))
+    .map(singularize)
+    .join(" ");
+}
+
+export function validateAnswer(
+  rawAnswer: string,
+  adjectives: readonly string[],
+  priorAnswers: readonly string[],
+): AnswerValidation {
+  const answer = rawAnswer.trim();
+  const normalized = normalizeAnswer(answer);
+  if (!normalized) {
+    return { ok: false, rejection: { reason: "empty" } };
+  }
+  if (answer.length > MAX_ANSWER_LENGTH) {
+    return { ok: false, rejection: { reason: "too_long", maxLength: MAX_ANSWER_LENGTH } };
+  }
+
+  const tokens = normalized.split(" ");
+  for (const adjective of adjectives) {
+    if (isCategoryEcho(normalized, tokens, adjective)) {
+      return { ok: false, rejection: { reason: "category_echo", adjective } };
+    }
+  }
+  for (const adjective of adjectives) {
+    if (findAdjectiveTokens(tokens, adjective)) {
+      return { ok: false, rejection: { reason: "contains_adjective", adjective } };
+    }
+  }
+
+  const key = answerKey(answer);
+  const previous = priorAnswers.find((prior) => prior.trim() && answerKey(prior) === key);
+  if (previous !== undefined) {
+    return { ok: false, rejection: { reason: "duplicate", previous } };
+  }
+
+  return { ok: true, answer };
+}
+
+export function describeRejection(rejection: AnswerRejection): string {
+  switch (rejection.reason) {
+    case "empty":
+      return "Enter a word or phrase to lock in your guess.";
+    case "too_long":
+      return `Keep it to ${rejection.maxLength} characters or fewer.`;
+    case "category_echo":
+      return "You can't just submit the category as your guess.";
+    case "contains_adjective":
+      return `Your answer can't use "${rejection.adjective}" itself. Describe it without saying it.`;
+    case "duplicate":
+      return `You've already used "${rejection.previous}". Try a new one.`;
+  }
+}
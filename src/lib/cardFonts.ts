@@ -0,0 +1,48 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+// Fonts for server-rendered images, read from disk so rendering never calls
+// out to a font service. These are the same families, weights and (latin)
+// subset the app loads through next/font in src/app/layout.tsx, checked in
+// under src/assets/fonts with their OFL licenses. The image renderer reads
+// WOFF but not WOFF2. Should a file go missing, images fall back to the
+// renderer's built-in sans-serif.
+
+const FONT_DIR = path.join(process.cwd(), "src", "assets", "fonts");
+
+const CARD_FONTS = [
+  { name: "Bungee", file: "Bungee-Regular.woff", weight: 400 },
+  { name: "Space Grotesk", file: "SpaceGrotesk-Regular.woff", weight: 400 },
+  { name: "Space Grotesk", file: "SpaceGrotesk-Bold.woff", weight: 700 },
+] as const;
+
+export type CardFont = {
+  name: string;
+  data: ArrayBuffer;
+  weight: 400 | 700;
+  style: "normal";
+};
+
+let cachedFonts: Promise<CardFont[] | undefined> | null = null;
+
+async function loadFonts(): Promise<CardFont[] | undefined> {
+  const loaded = await Promise.all(
+    CARD_FONTS.map(async ({ name, file, weight }): Promise<CardFont | null> => {
+      try {
+        const buffer = await readFile(path.join(FONT_DIR, file));
+        const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+        return { name, data: data as ArrayBuffer, weight, style: "normal" };
+      } catch {
+        console.warn(`Card font ${file} not found in ${FONT_DIR}; using the fallback font`);
+        return null;
+      }
+    }),
+  );
+  const fonts = loaded.filter((font): font is CardFont => font !== null);
+  return fonts.length > 0 ? fonts : undefined;
+}
+
+export function getCardFonts(): Promise<CardFont[] | undefined> {
+  cachedFonts ??= loadFonts();
+  return cachedFonts;
+}
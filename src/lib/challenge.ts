@@ -0,0 +1,98 @@
+import type { GameState } from "@/hooks/useDailyGameState";
+import { MAX_ANSWER_LENGTH } from "@/lib/answerValidation";
+import { decodeRules, EncodedRules, encodeRules, GameRules, isDefaultRules } from "@/lib/gameRules";
+import { Grade, gradeFor, pillarTotals } from "@/lib/scoring";
+import { isValidAdjectiveSet } from "@/lib/puzzle";
+import { clampInt, decodeUrlPayload, encodeUrlPayload } from "@/lib/urlPayload";
+
+// "Beat my score" links: the puzzle's adjectives plus the sender's round scores
+// and, if they opted in, their answers. The answers travel in the link, so
+// hiding them until the friend finishes is a courtesy of the UI, not a secret.
+
+export type ChallengeRound = {
+  scores?: number[]; // one per adjective; missing when the round went unscored
+  isPass?: boolean;
+  noun?: string; // only when the sender shared their answers
+};
+
+export type Challenge = {
+  adjectives: string[];
+  rounds: ChallengeRound[];
+  rules: GameRules; // the friend plays by the same rules
+};
+
+// Version 1 links only ever had two adjectives, listed one by one; they are
+// still decoded.
+const CHALLENGE_VERSION = 2;
+
+// Rounds are the scores (one per adjective) when scored, "P" for a pass and
+// null otherwise.
+type EncodedRound = number[] | "P" | null;
+type EncodedChallenge = [
+  version: number,
+  adjectives: string[],
+  rounds: EncodedRound[],
+  answers?: Array<string | null> | null,
+  rules?: EncodedRules, // only for variants; missing means the defaults
+];
+
+export function challengeFromState(state: GameState, includeAnswers: boolean): Challenge {
+  return {
+    adjectives: state.adjectives,
+    rounds: state.guesses.slice(0, state.rules.rounds).map((g) => ({
+      scores: g.scores,
+      isPass: g.isPass,
+      noun: includeAnswers && !g.isPass && g.noun ? g.noun : undefined,
+    })),
+    rules: state.rules,
+  };
+}
+
+export function encodeChallenge(challenge: Challenge): string {
+  const encoded: EncodedChallenge = [
+    CHALLENGE_VERSION,
+    challenge.adjectives,
+    challenge.rounds.map((r) => (r.isPass ? "P" : r.scores ?? null)),
+  ];
+  const hasAnswers = challenge.rounds.some((r) => r.noun);
+  const hasRules = !isDefaultRules(challenge.rules);
+  if (hasAnswers || hasRules) {
+    encoded.push(hasAnswers ? challenge.rounds.map((r) => r.noun ?? null) : null);
+  }
+  if (hasRules) encoded.push(encodeRules(challenge.rules));
+  return encodeUrlPayload(encoded);
+}
+
+export function decodeChallenge(payload: string): Challenge | null {
+  const value = decodeUrlPayload(payload);
+  if (!Array.isArray(value) || (value[0] !== 1 && value[0] !== CHALLENGE_VERSION)) return null;
+
+  const fields = value as unknown[];
+  const [adjectives, rounds, answers, encodedRules] =
+    value[0] === 1 ? [fields.slice(1, 3), ...fields.slice(3)] : fields.slice(1);
+  const rules = decodeRules(encodedRules);
+  if (!isValidAdjectiveSet(adjectives) || !Array.isArray(rounds) || rounds.length > rules.rounds) {
+    return null;
+  }
+
+  const decodedRounds = rounds.map((round: unknown, i): ChallengeRound => {
+    const answer = Array.isArray(answers) ? answers[i] : undefined;
+    const noun = typeof answer === "string" ? answer.slice(0, MAX_ANSWER_LENGTH) : undefined;
+    if (round === "P") return { isPass: true, scores: adjectives.map(() => 0) };
+    if (Array.isArray(round) && round.length === adjectives.length) {
+      const scores = round.map((score) => clampInt(score, 0, 10));
+      if (scores.every((score) => score !== null)) return { scores: scores as number[], noun };
+    }
+    return { noun };
+  });
+
+  return { adjectives, rounds: decodedRounds, rules };
+}
+
+export function challengeGrade(challenge: Challenge): Grade {
+  return gradeFor(pillarTotals(challenge.rounds, challenge.adjectives.length), challenge.rules);
+}
+
+export function sameChallenge(a: Challenge, b: Challenge): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,166 @@
+import type { GameState } from "@/hooks/useDailyGameState";
+
+// Where a game is in its flow. The game screen used to keep this in a handful
+// of independent flags, which could end up in combinations that make no sense
+// (passing while a guess was being scored, say). Now every step goes through
+// advancePhase, which refuses anything that isn't legal from where the game
+// is. The phase is saved with the game, so a reload picks up where it was.
+//
+//   awaiting-input --submit--> scoring --scored--> revealing --revealed--> next round
+//        |                       |  \--not-scored--> next round
+//        |                       \--answer-rejected--> awaiting-input
+//        \--pass--> between-rounds --continue--> next round
+//
+//   complete --open-appeal--> appealing (drafting) --send-appeal--> (sending)
+//     (sending) --appeal-verdict--> (verdict) --appeal-decided--> complete
+//     (sending | verdict) --appeal-failed--> (drafting) --close-appeal--> complete
+//
+// "Next round" is the next round still to play, or complete after the last.
+
+export type AppealStage =
+  | "drafting" // the modal is open
+  | "sending" // waiting on the booth
+  | "verdict"; // the new scores are in and the ruling is typing out
+
+export type GamePhase =
+  | { kind: "awaiting-input" }
+  | { kind: "scoring" }
+  | { kind: "revealing"; until: number } // epoch ms
+  | { kind: "between-rounds" }
+  | { kind: "appealing"; roundIndex: number; stage: AppealStage }
+  | { kind: "complete" };
+
+export type PhaseEvent =
+  | { type: "submit" }
+  | { type: "answer-rejected" } // the server sent the answer back unscored
+  | { type: "scored"; at: number } // epoch ms
+  | { type: "not-scored" } // queued for a retry, or too late to score
+  | { type: "pass" }
+  | { type: "revealed" }
+  | { type: "continue" }
+  | { type: "open-appeal"; roundIndex: number }
+  | { type: "send-appeal" }
+  | { type: "appeal-verdict" }
+  | { type: "appeal-decided" }
+  | { type: "appeal-failed" }
+  | { type: "close-appeal" };
+
+// How long a freshly scored guess has the stage before the next round
+export const REVEAL_MS = 800;
+
+type PhaseGame = Pick<GameState, "phase" | "currentTurnIndex" | "guesses" | "rules">;
+
+// The next round still to play after the current one (passes are skipped),
+// or rules.rounds once there are none left
+function nextTurnIndex(game: PhaseGame): number {
+  let next = game.currentTurnIndex + 1;
+  while (next < game.rules.rounds && game.guesses[next]?.isPass) next++;
+  return Math.min(next, game.rules.rounds);
+}
+
+function toNextRound<T extends PhaseGame>(game: T): T {
+  const currentTurnIndex = nextTurnIndex(game);
+  const phase: GamePhase =
+    currentTurnIndex >= game.rules.rounds ? { kind: "complete" } : { kind: "awaiting-input" };
+  return { ...game, currentTurnIndex, phase };
+}
+
+function withPhase<T extends PhaseGame>(game: T, phase: GamePhase): T {
+  return { ...game, phase };
+}
+
+// The game after `event`, or null if the event isn't legal in its phase
+export function advancePhase<T extends PhaseGame>(game: T, event: PhaseEvent): T | null {
+  const { phase } = game;
+  switch (event.type) {
+    case "submit":
+      return phase.kind === "awaiting-input" ? withPhase(game, { kind: "scoring" }) : null;
+    case "answer-rejected":
+      return phase.kind === "scoring" ? withPhase(game, { kind: "awaiting-input" }) : null;
+    case "scored":
+      return phase.kind === "scoring" ? withPhase(game, { kind: "revealing", until: event.at + REVEAL_MS }) : null;
+    case "not-scored":
+      return phase.kind === "scoring" ? toNextRound(game) : null;
+    case "pass":
+      return phase.kind === "awaiting-input" ? withPhase(game, { kind: "between-rounds" }) : null;
+    case "revealed":
+      return phase.kind === "revealing" ? toNextRound(game) : null;
+    case "continue":
+      return phase.kind === "between-rounds" ? toNextRound(game) : null;
+    case "open-appeal":
+      return phase.kind === "complete" && game.guesses[event.roundIndex]?.scores
+        ? withPhase(game, { kind: "appealing", roundIndex: event.roundIndex, stage: "drafting" })
+        : null;
+    case "send-appeal":
+      return phase.kind === "appealing" && phase.stage === "drafting"
+        ? withPhase(game, { ...phase, stage: "sending" })
+        : null;
+    case "appeal-verdict":
+      return phase.kind === "appealing" && phase.stage === "sending"
+        ? withPhase(game, { ...phase, stage: "verdict" })
+        : null;
+    case "appeal-decided":
+      return phase.kind === "appealing" && phase.stage !== "drafting"
+        ? withPhase(game, { kind: "complete" })
+        : null;
+    case "appeal-failed":
+      return phase.kind === "appealing" && phase.stage !== "drafting"
+        ? withPhase(game, { ...phase, stage: "drafting" })
+        : null;
+    case "close-appeal":
+      return phase.kind === "appealing" && phase.stage === "drafting"
+        ? withPhase(game, { kind: "complete" })
+        : null;
+  }
+}
+
+// Where a game stands when nothing is going on in this tab
+function restingPhase(game: Omit<PhaseGame, "phase">): GamePhase {
+  if (game.currentTurnIndex >= game.rules.rounds) return { kind: "complete" };
+  if (game.guesses[game.currentTurnIndex]?.isPass) return { kind: "between-rounds" };
+  return { kind: "awaiting-input" };
+}
+
+function isPhase(value: unknown): value is GamePhase {
+  const phase = value as GamePhase | null;
+  if (!phase || typeof phase !== "object") return false;
+  switch (phase.kind) {
+    case "awaiting-input":
+    case "scoring":
+    case "between-rounds":
+    case "complete":
+      return true;
+    case "revealing":
+      return typeof phase.until === "number";
+    case "appealing":
+      return typeof phase.roundIndex === "number";
+    default:
+      return false;
+  }
+}
+
+// The phase of a game read back from storage, whether after a reload or saved
+// by another tab. A reveal carries on where it was. Requests don't survive
+// the page that sent them, though: a guess that was being scored goes back
+// to the input (or on to its reveal, if the judge had already answered) and
+// an appeal closes with its token unspent. Saves from before phases existed,
+// or with a phase that doesn't match the turn, get one from where the game is.
+export function resumePhase(game: Omit<PhaseGame, "phase">, saved: unknown, now: number): GamePhase {
+  const resting = restingPhase(game);
+  if (!isPhase(saved)) return resting;
+
+  const finished = resting.kind === "complete";
+  switch (saved.kind) {
+    case "scoring":
+      if (finished) return resting;
+      // Recorded means the judge had answered, one way or another
+      if (game.guesses[game.currentTurnIndex]?.noun) return { kind: "revealing", until: now };
+      return { kind: "awaiting-input" };
+    case "revealing":
+      return finished ? resting : saved;
+    case "appealing":
+      return { kind: "complete" };
+    default:
+      return saved.kind === resting.kind ? saved : resting;
+  }
+}
@@ -0,0 +1,68 @@
+import { clampInt } from "@/lib/urlPayload";
+
+// The knobs of a game. Every game carries its rules in its state, so a saved
+// game keeps playing by the rules it started with even after the defaults (or
+// the day's variant) change. Variants for particular days are set in
+// src/data/schedule.ts.
+
+export type GameRules = {
+  rounds: number;
+  appeals: number;
+  pillarCap: number; // cumulative points per pillar count up to this
+  pointsPerSegment: number; // the cap is split into segments of this many points
+};
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  rounds: 3,
+  appeals: 1,
+  pillarCap: 25,
+  pointsPerSegment: 5,
+};
+
+// Bounds for rules read back from saves and links
+const MAX_ROUNDS = 10;
+const MAX_APPEALS = 5;
+const MAX_PILLAR_CAP = 100;
+
+export function segmentsPerPillar(rules: GameRules = DEFAULT_GAME_RULES): number {
+  return Math.floor(rules.pillarCap / rules.pointsPerSegment);
+}
+
+// One pillar per adjective
+export function maxFinalScore(rules: GameRules, pillarCount: number): number {
+  return segmentsPerPillar(rules) * pillarCount;
+}
+
+export function isDefaultRules(rules: GameRules): boolean {
+  return (
+    rules.rounds === DEFAULT_GAME_RULES.rounds &&
+    rules.appeals === DEFAULT_GAME_RULES.appeals &&
+    rules.pillarCap === DEFAULT_GAME_RULES.pillarCap &&
+    rules.pointsPerSegment === DEFAULT_GAME_RULES.pointsPerSegment
+  );
+}
+
+// Missing fields fall back to the defaults, out of range ones are clamped
+export function reviveRules(raw: unknown): GameRules {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof GameRules, unknown>>;
+  const rounds = clampInt(value.rounds, 1, MAX_ROUNDS) ?? DEFAULT_GAME_RULES.rounds;
+  const appeals = clampInt(value.appeals, 0, MAX_APPEALS) ?? DEFAULT_GAME_RULES.appeals;
+  const pillarCap = clampInt(value.pillarCap, 1, MAX_PILLAR_CAP) ?? DEFAULT_GAME_RULES.pillarCap;
+  const pointsPerSegment =
+    clampInt(value.pointsPerSegment, 1, pillarCap) ??
+    Math.min(DEFAULT_GAME_RULES.pointsPerSegment, pillarCap);
+  return { rounds, appeals, pillarCap, pointsPerSegment };
+}
+
+// Compact form for URL payloads: [rounds, appeals, pillarCap, pointsPerSegment]
+export type EncodedRules = [number, number, number, number];
+
+export function encodeRules(rules: GameRules): EncodedRules {
+  return [rules.rounds, rules.appeals, rules.pillarCap, rules.pointsPerSegment];
+}
+
+export function decodeRules(value: unknown): GameRules {
+  if (!Array.isArray(value)) return DEFAULT_GAME_RULES;
+  const [rounds, appeals, pillarCap, pointsPerSegment] = value as unknown[];
+  return reviveRules({ rounds, appeals, pillarCap, pointsPerSegment });
+}
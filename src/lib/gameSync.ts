@@ -0,0 +1,133 @@
+import type { GameState, GuessResult } from "@/hooks/useDailyGameState";
+import { sameChallenge } from "@/lib/challenge";
+
+// Keeping several open tabs of the same game consistent. Each tab merges what
+// the others saved into its own state, round by round, keeping whichever side
+// got further. Nothing ever goes backwards: the turn index only grows, the
+// appeal token can't come back once spent, and a scored guess is never
+// replaced by an unscored one. The phase goes with the turn: a tab that's
+// fallen behind takes the other's, otherwise it keeps its own. The one
+// exception is a reset: the game with the later generation replaces the other
+// outright, progress and all.
+//
+// Merging alone can't stop two tabs from each sending a different answer for
+// the same round, so a tab claims the round in storage before calling the
+// judge, and the others won't submit while the claim holds.
+
+// A round being scored, and by which tab
+export type RoundClaim = {
+  roundIndex: number;
+  tab: string;
+  at: number; // epoch ms
+};
+
+// A claim outlives a slow judge, but not a tab closed mid-request for long
+const CLAIM_TTL_MS = 2 * 60 * 1000;
+
+const TAB_ID_KEY = "off-the-charts-tab";
+let tabId: string | null = null;
+
+// Survives a reload of the tab, unlike a module-level id
+export function thisTab(): string {
+  if (tabId) return tabId;
+  try {
+    tabId = window.sessionStorage.getItem(TAB_ID_KEY);
+    if (!tabId) {
+      tabId = Math.random().toString(36).slice(2);
+      window.sessionStorage.setItem(TAB_ID_KEY, tabId);
+    }
+  } catch {
+    tabId = Math.random().toString(36).slice(2);
+  }
+  return tabId;
+}
+
+export function claimFor(roundIndex: number, now: number = Date.now()): RoundClaim {
+  return { roundIndex, tab: thisTab(), at: now };
+}
+
+// Whether this tab may send a guess for the round: it's the round being
+// played, nobody has answered it yet and no other tab is scoring it
+export function mayClaim(game: GameState, roundIndex: number, now: number = Date.now()): boolean {
+  if (game.currentTurnIndex !== roundIndex || game.guesses[roundIndex]?.noun) return false;
+  const { claim } = game;
+  return !claim || claim.tab === thisTab() || claim.roundIndex !== roundIndex || now - claim.at > CLAIM_TTL_MS;
+}
+
+// Each tab has the last word on its own claim; storage has it on the others'.
+// Should two tabs both hold one, the earlier claim stands.
+function mergeClaims(local: RoundClaim | undefined, remote: RoundClaim | undefined): RoundClaim | undefined {
+  const mine = local?.tab === thisTab() ? local : undefined;
+  const theirs = remote && remote.tab !== thisTab() ? remote : undefined;
+  if (mine && theirs) {
+    return theirs.at < mine.at || (theirs.at === mine.at && theirs.tab < mine.tab) ? theirs : mine;
+  }
+  return mine ?? theirs;
+}
+
+export function sameGame(a: GameState, b: GameState): boolean {
+  if (a.mode !== b.mode || a.dateKey !== b.dateKey) return false;
+  if (a.adjectives.join("|") !== b.adjectives.join("|")) return false;
+  if (a.challenge || b.challenge) {
+    return !!a.challenge && !!b.challenge && sameChallenge(a.challenge, b.challenge);
+  }
+  return true;
+}
+
+// How far a round has got; the further one wins a merge
+function guessProgress(guess: GuessResult | undefined): number {
+  if (!guess) return 0;
+  if (guess.appealed) return 4;
+  if (guess.scores) return 3;
+  if (guess.scoringGivenUp) return 2;
+  if (guess.noun) return 1;
+  return 0;
+}
+
+// Between different answers that got equally far, the alphabetically first
+// wins, so every tab settles on the same one. Returns `local` itself when the
+// other tab had nothing new, so callers can skip the update.
+export function mergeGames(local: GameState, remote: GameState): GameState {
+  const generation = local.generation ?? 0;
+  const remoteGeneration = remote.generation ?? 0;
+  if (generation > remoteGeneration) return local;
+  if (remoteGeneration > generation) {
+    return { ...remote, claim: mergeClaims(undefined, remote.claim) };
+  }
+
+  const guesses = local.guesses.map((guess, i) => {
+    const other = remote.guesses[i];
+    const ahead = guessProgress(other) - guessProgress(guess);
+    if (ahead > 0) return other;
+    return ahead === 0 && other && other.noun < guess.noun ? other : guess;
+  });
+
+  // A round may be waiting on the judge in either tab; once it's settled in
+  // the merged guesses nobody needs to score it again.
+  const unsettled = (roundIndex: number) => guessProgress(guesses[roundIndex]) < 2;
+  const scoringQueue = [
+    ...local.scoringQueue,
+    ...remote.scoringQueue.filter((p) => !local.scoringQueue.some((q) => q.roundIndex === p.roundIndex)),
+  ].filter((p) => unsettled(p.roundIndex));
+  // Nothing left to claim once the round has an answer
+  const claim = mergeClaims(local.claim, remote.claim);
+
+  const merged: GameState = {
+    ...local,
+    guesses,
+    currentTurnIndex: Math.max(local.currentTurnIndex, remote.currentTurnIndex),
+    phase: remote.currentTurnIndex > local.currentTurnIndex ? remote.phase : local.phase,
+    appealsRemaining: Math.min(local.appealsRemaining, remote.appealsRemaining),
+    scoringQueue,
+    claim: claim && !guesses[claim.roundIndex]?.noun ? claim : undefined,
+  };
+  return JSON.stringify(merged) === JSON.stringify(local) ? local : merged;
+}
+
+// Whether a tab may save `state` into a slot that currently holds `stored`.
+// A tab left open on an earlier day's daily game must not write over the
+// new day's game another tab has started.
+export function mayReplace(stored: GameState, state: GameState): boolean {
+  if (sameGame(stored, state) || state.mode !== "daily" || stored.mode !== "daily") return true;
+  return stored.dateKey.slice(0, 10) <= state.dateKey.slice(0, 10);
+}
@@ -0,0 +1,251 @@
+import type { GameState } from "@/hooks/useDailyGameState";
+import { DEFAULT_GAME_RULES, GameRules, maxFinalScore, reviveRules } from "@/lib/gameRules";
+import { combinedScore, finalScoreFor, maxCombinedScore, overflowFor, pillarTotals } from "@/lib/scoring";
+import { loadVersioned, migrationsFrom, saveVersioned, VersionedStore } from "@/lib/storage";
+
+// Per-day results log for daily games. The current game's state is thrown
+// away when the day rolls over, so each finished daily game is copied here
+// and kept indefinitely. Archive replays of a missed day are logged too, but
+// flagged so they don't count towards streaks. Debug/random and challenge
+// games are never recorded.
+
+export const HISTORY_STORAGE_KEY = "off-the-charts-history-v1";
+
+export type HistoryAnswer = {
+  noun: string;
+  scores?: number[];
+  appealed?: boolean;
+  isPass?: boolean;
+};
+
+export type DailyResult = {
+  day: string; // YYYY-MM-DD, without the seed version so streaks survive puzzle reshuffles
+  dateKey: string;
+  adjectives: string[];
+  answers: HistoryAnswer[];
+  pillars: number[]; // cumulative points per pillar (one per adjective), uncapped
+  finalScore: number; // filled segments, 0..maxFinalScore(rules, pillars.length)
+  overflow: number; // points past the pillar cap, all pillars together
+  appealUsed: boolean;
+  archive?: boolean; // played later from the archive, not on the day
+  rules?: GameRules; // missing for results logged before rules were configurable
+};
+
+export type PlayHistory = {
+  results: Record<string, DailyResult>; // keyed by day
+};
+
+export type PersonalBest = {
+  day: string;
+  adjectives: string[];
+  noun: string;
+  scores: number[];
+};
+
+export type PlayStats = {
+  gamesPlayed: number;
+  currentStreak: number;
+  maxStreak: number;
+  // distribution[n] = number of games that finished with a final score of n
+  distribution: number[];
+  // Average share of each pillar filled at the end of a game, 0..1, by
+  // position; a third or fourth pillar only counts games that had one
+  averageFill: number[];
+  personalBests: PersonalBest[];
+  offTheChartsGames: number; // games that ended with points past a pillar's cap
+  bestOverflow: number; // most overflow in a single game
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERSONAL_BEST_COUNT = 3;
+
+export function emptyHistory(): PlayHistory {
+  return { results: {} };
+}
+
+function dayOf(dateKey: string): string {
+  return dateKey.slice(0, 10);
+}
+
+function dayNumber(day: string): number {
+  return Math.round(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+}
+
+// Snapshot of a finished daily game, or null for games that don't belong in
+// the log.
+export function resultFromState(state: GameState): DailyResult | null {
+  if (state.mode !== "daily" && state.mode !== "archive") return null;
+  const pillars = pillarTotals(state.guesses, state.adjectives.length);
+  return {
+    day: dayOf(state.dateKey),
+    dateKey: state.dateKey,
+    adjectives: state.adjectives,
+    answers: state.guesses
+      .filter((g) => g.noun)
+      .map(({ noun, scores, appealed, isPass }) => ({ noun, scores, appealed, isPass })),
+    pillars,
+    finalScore: finalScoreFor(pillars, state.rules),
+    overflow: overflowFor(pillars, state.rules),
+    appealUsed: state.guesses.some((g) => g.appealed),
+    archive: state.mode === "archive" || undefined,
+    rules: state.rules,
+  };
+}
+
+export function recordResult(history: PlayHistory, result: DailyResult): PlayHistory {
+  const existing = history.results[result.day];
+  if (existing) {
+    // Only the day's first game counts. It is updated when an appeal changes
+    // its scores, but a replay of the day (e.g. after a debug reset, or from
+    // the archive) is ignored.
+    const nouns = (r: DailyResult) => r.answers.map((a) => a.noun).join("\n");
+    if (existing.dateKey !== result.dateKey || nouns(existing) !== nouns(result)) return history;
+    if (JSON.stringify(existing) === JSON.stringify(result)) return history;
+  }
+  return { results: { ...history.results, [result.day]: result } };
+}
+
+// Adds the days only `other` has. Days both have keep `base`'s result, which
+// is the saved one when syncing tabs.
+export function mergeHistories(base: PlayHistory, other: PlayHistory): PlayHistory {
+  const missing = Object.values(other.results).filter((r) => !base.results[r.day]);
+  if (missing.length === 0) return base;
+  const results = { ...base.results };
+  missing.forEach((r) => {
+    results[r.day] = r;
+  });
+  return { results };
+}
+
+export function reviveHistory(raw: unknown): PlayHistory {
+  if (!raw || typeof raw !== "object") return emptyHistory();
+  const results = (raw as { results?: unknown }).results;
+  if (!results || typeof results !== "object") return emptyHistory();
+
+  const revived: Record<string, DailyResult> = {};
+  Object.values(results as Record<string, unknown>).forEach((value) => {
+    const result = value as DailyResult;
+    if (
+      result &&
+      typeof result.day === "string" &&
+      Array.isArray(result.adjectives) &&
+      Array.isArray(result.answers) &&
+      Array.isArray(result.pillars) &&
+      typeof result.finalScore === "number" &&
+      typeof result.overflow === "number"
+    ) {
+      revived[result.day] = result.rules ? { ...result, rules: reviveRules(result.rules) } : result;
+    }
+  });
+  return { results: revived };
+}
+
+// The saved log at each version, as far as the migrations need to know;
+// reviveHistory checks the up-to-date one.
+type SavedHistoryV0 = { results?: unknown } | null;
+type SavedHistoryV1 = SavedHistoryV0;
+type SavedHistoryV2 = SavedHistoryV1; // every result has its overflow
+
+const historyStore: VersionedStore<PlayHistory> = {
+  key: HISTORY_STORAGE_KEY,
+  migrations: migrationsFrom<SavedHistoryV0>()
+    // 0 -> 1: the bare log from before versioned saves; only the envelope is new
+    .then((data): SavedHistoryV1 => data)
+    // 1 -> 2: overflow past the pillar cap is recorded. Pillars were always
+    // stored uncapped, so it can be worked out for older results.
+    .then((data): SavedHistoryV2 => {
+      const results = data?.results;
+      if (!results || typeof results !== "object") return data;
+      const upgraded: Record<string, unknown> = {};
+      Object.entries(results as Record<string, unknown>).forEach(([day, value]) => {
+        const result = value as Partial<DailyResult> | null;
+        upgraded[day] = Array.isArray(result?.pillars)
+          ? { ...result, overflow: overflowFor(result.pillars, reviveRules(result.rules)) }
+          : value;
+      });
+      return { results: upgraded };
+    }).steps,
+  revive: reviveHistory,
+};
+
+// A history saved by a newer build loads as empty here and is never
+// overwritten (see src/lib/storage.ts).
+export function loadHistory(): PlayHistory {
+  const loaded = loadVersioned(historyStore);
+  return loaded.status === "ok" ? loaded.value : emptyHistory();
+}
+
+export function saveHistory(history: PlayHistory) {
+  saveVersioned(historyStore, history);
+}
+
+// The current streak is still alive if the last game was yesterday; it only
+// breaks once a whole day goes by unplayed.
+function computeStreaks(days: string[], today: string): { current: number; max: number } {
+  const numbers = [...new Set(days.map(dayNumber))].sort((a, b) => a - b);
+  let max = 0;
+  let run = 0;
+  numbers.forEach((n, i) => {
+    run = i > 0 && n === numbers[i - 1] + 1 ? run + 1 : 1;
+    max = Math.max(max, run);
+  });
+
+  const last = numbers[numbers.length - 1];
+  const todayNumber = dayNumber(today);
+  const current = last === todayNumber || last === todayNumber - 1 ? run : 0;
+  return { current, max };
+}
+
+export function computeStats(history: PlayHistory, today: string): PlayStats {
+  const results = Object.values(history.results);
+
+  // Wide enough for the biggest variant played
+  const topScore = Math.max(
+    maxFinalScore(DEFAULT_GAME_RULES, 2),
+    ...results.map((r) => maxFinalScore(r.rules ?? DEFAULT_GAME_RULES, r.pillars.length)),
+  );
+  const distribution = new Array<number>(topScore + 1).fill(0);
+  results.forEach((r) => {
+    distribution[Math.min(topScore, Math.max(0, r.finalScore))]++;
+  });
+
+  const fillOf = (r: DailyResult, i: number) => {
+    const cap = (r.rules ?? DEFAULT_GAME_RULES).pillarCap;
+    return Math.min(r.pillars[i], cap) / cap;
+  };
+  const pillarCount = Math.max(2, ...results.map((r) => r.pillars.length));
+  const averageFill = Array.from({ length: pillarCount }, (_, i) => {
+    const withPillar = results.filter((r) => i < r.pillars.length);
+    return withPillar.length === 0
+      ? 0
+      : withPillar.reduce((sum, r) => sum + fillOf(r, i), 0) / withPillar.length;
+  });
+
+  // Ranked by share of the maximum, so a four-adjective answer doesn't
+  // automatically beat a two-adjective one
+  const shareOf = (scores: number[]) => combinedScore(scores) / maxCombinedScore(scores.length);
+  const personalBests = results
+    .flatMap((r) =>
+      r.answers
+        .filter((a): a is HistoryAnswer & { scores: number[] } => !!a.scores && !a.isPass)
+        .map((a) => ({ day: r.day, adjectives: r.adjectives, noun: a.noun, scores: a.scores })),
+    )
+    .sort((a, b) => shareOf(b.scores) - shareOf(a.scores) || b.day.localeCompare(a.day))
+    .slice(0, PERSONAL_BEST_COUNT);
+
+  const { current, max } = computeStreaks(
+    results.filter((r) => !r.archive).map((r) => r.day),
+    dayOf(today),
+  );
+
+  return {
+    gamesPlayed: results.length,
+    currentStreak: current,
+    maxStreak: max,
+    distribution,
+    averageFill,
+    personalBests,
+    offTheChartsGames: results.filter((r) => r.overflow > 0).length,
+    bestOverflow: Math.max(0, ...results.map((r) => r.overflow)),
+  };
+}
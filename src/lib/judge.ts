@@ -0,0 +1,173 @@
+import { DEFAULT_MODEL_ID, getOpenAIClient, getOpenAICompatibleClient } from "@/lib/openai";
+import { createMockJudge } from "@/lib/mockJudge";
+import type { PersonaId } from "@/lib/personas";
+
+// What the judge is being asked to decide. Prompt-driven providers only
+// need the prompt, but the structured task lets offline providers (the mock
+// judge) produce sensible verdicts without parsing prompt text.
+export type JudgeTask =
+  | {
+      kind: "score";
+      adjectives: string[];
+      noun: string;
+      previousNouns: string[];
+      persona: PersonaId;
+    }
+  | {
+      kind: "appeal";
+      adjectives: string[];
+      noun: string;
+      originalScores: number[]; // one per adjective
+      appealText: string;
+      persona: PersonaId;
+    };
+
+export type JudgeResponseSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type JudgeRequest = {
+  task: JudgeTask;
+  prompt: string;
+  maxTokens: number;
+  // JSON schema for providers that support structured output; others rely on
+  // the prompt's format instructions and the validators in "@/lib/verdict".
+  responseSchema?: JudgeResponseSchema;
+};
+
+export type JudgeProviderId = "openai" | "openai-compatible" | "mock";
+
+export type JudgeProvider = {
+  id: JudgeProviderId;
+  model: string;
+  // Returns the raw completion text; callers are responsible for parsing it.
+  complete: (request: JudgeRequest) => Promise<string>;
+  // Same completion, yielded in pieces as it is generated. Optional: callers
+  // fall back to complete() for providers that can't stream.
+  stream?: (request: JudgeRequest) => AsyncIterable<string>;
+};
+
+let cachedProvider: JudgeProvider | null = null;
+
+// Provider selection:
+// - OFF_THE_CHARTS_JUDGE=openai | openai-compatible | mock picks one explicitly
+// - otherwise OpenAI is used when OPENAI_API_KEY is set, and the mock judge
+//   when it isn't, so the game runs end-to-end without a key.
+export function getJudgeProvider(): JudgeProvider {
+  if (!cachedProvider) {
+    cachedProvider = createJudgeProvider(resolveJudgeProviderId());
+  }
+  return cachedProvider;
+}
+
+function resolveJudgeProviderId(): JudgeProviderId {
+  const configured = process.env.OFF_THE_CHARTS_JUDGE?.trim().toLowerCase();
+  if (configured) {
+    if (configured === "openai" || configured === "openai-compatible" || configured === "mock") {
+      return configured;
+    }
+    throw new Error(`Unknown OFF_THE_CHARTS_JUDGE provider "${configured}"`);
+  }
+
+  if (process.env.OPENAI_API_KEY) return "openai";
+
+  console.warn("OPENAI_API_KEY is not set; falling back to the offline mock judge");
+  return "mock";
+}
+
+function createJudgeProvider(id: JudgeProviderId): JudgeProvider {
+  switch (id) {
+    case "openai":
+      return createOpenAIJudge();
+    case "openai-compatible":
+      return createOpenAICompatibleJudge();
+    case "mock":
+      return createMockJudge();
+  }
+}
+
+function createOpenAIJudge(): JudgeProvider {
+  const model = DEFAULT_MODEL_ID;
+  const params = ({ prompt, maxTokens, responseSchema }: JudgeRequest) => ({
+    model,
+    messages: [
+      {
+        role: "system" as const,
+        content: prompt,
+      },
+    ],
+    max_completion_tokens: maxTokens,
+    reasoning_effort:
+      model === "gpt-5.2-2025-12-11" ? ("none" as any) : ("minimal" as const),
+    verbosity: "low" as const,
+    ...structuredOutputParams(responseSchema),
+  });
+  return {
+    id: "openai",
+    model,
+    complete: async (request) => {
+      const openai = getOpenAIClient();
+      const response = await openai.chat.completions.create(params(request));
+      return response.choices[0]?.message?.content?.trim() ?? "";
+    },
+    stream: async function* (request) {
+      const openai = getOpenAIClient();
+      const stream = await openai.chat.completions.create({ ...params(request), stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+// Self-hosted models rarely understand OpenAI's reasoning/verbosity knobs,
+// so only the portable chat completion parameters are sent. Structured output
+// is opt-in via OFF_THE_CHARTS_JUDGE_STRUCTURED_OUTPUT=1 since support varies.
+function createOpenAICompatibleJudge(): JudgeProvider {
+  const model = DEFAULT_MODEL_ID;
+  const structuredOutput = process.env.OFF_THE_CHARTS_JUDGE_STRUCTURED_OUTPUT === "1";
+  const params = ({ prompt, maxTokens, responseSchema }: JudgeRequest) => ({
+    model,
+    messages: [
+      {
+        role: "system" as const,
+        content: prompt,
+      },
+    ],
+    max_tokens: maxTokens,
+    ...(structuredOutput ? structuredOutputParams(responseSchema) : {}),
+  });
+  return {
+    id: "openai-compatible",
+    model,
+    complete: async (request) => {
+      const client = getOpenAICompatibleClient();
+      const response = await client.chat.completions.create(params(request));
+      return response.choices[0]?.message?.content?.trim() ?? "";
+    },
+    stream: async function* (request) {
+      const client = getOpenAICompatibleClient();
+      const stream = await client.chat.completions.create({ ...params(request), stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+function structuredOutputParams(responseSchema?: JudgeResponseSchema) {
+  if (!responseSchema) return {};
+  return {
+    response_format: {
+      type: "json_schema" as const,
+      json_schema: {
+        name: responseSchema.name,
+        schema: responseSchema.schema,
+        strict: true,
+      },
+    },
+  };
+}
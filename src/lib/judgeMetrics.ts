@@ -0,0 +1,28 @@
+import type { JudgeTask } from "@/lib/judge";
+
+// In-process counters for how often the judge needs a repair retry or fails
+// outright. They reset on server restart, so every non-valid outcome is also
+// logged with the running totals.
+
+export type VerdictOutcome = "valid" | "repaired" | "failed";
+
+type VerdictCounts = Record<VerdictOutcome, number>;
+
+const counts: Record<JudgeTask["kind"], VerdictCounts> = {
+  score: { valid: 0, repaired: 0, failed: 0 },
+  appeal: { valid: 0, repaired: 0, failed: 0 },
+};
+
+export function recordVerdictOutcome(kind: JudgeTask["kind"], outcome: VerdictOutcome) {
+  counts[kind][outcome] += 1;
+  if (outcome !== "valid") {
+    console.warn(`Judge ${kind} verdict ${outcome}`, getVerdictCounts());
+  }
+}
+
+export function getVerdictCounts(): Record<JudgeTask["kind"], VerdictCounts> {
+  return {
+    score: { ...counts.score },
+    appeal: { ...counts.appeal },
+  };
+}
@@ -0,0 +1,208 @@
+import type { JudgeErrorResponse } from "@/lib/scoreClient";
+import { numberedFields } from "@/lib/verdict";
+
+// Streaming mode for /api/score and /api/appeal. Clients opt in with
+// `Accept: application/x-ndjson` and get one JSON event per line: the scores
+// as soon as the judge has committed to them, then the reasonings (one per
+// adjective) in pieces, then a final "done" event carrying exactly the body a non-streaming
+// request would have received. The "done" body is authoritative; if the judge
+// needed a repair attempt the streamed text may not match it.
+
+export const JUDGE_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export type JudgeStreamEvent<T> =
+  | { type: "scores"; scores: number[] }
+  | { type: "reasoning"; index: number; delta: string }
+  | { type: "done"; result: T }
+  | { type: "error"; status: number; error: string; code?: string };
+
+export type JudgeFailure = {
+  status: number;
+  body: { error: string; code?: string };
+};
+
+export type VerdictProgressHandlers = {
+  onScores?: (scores: number[]) => void;
+  onReasoning?: (index: number, delta: string) => void;
+};
+
+// Both verdict bodies share the reasonings; only the score fields the judge
+// writes differ (score1, score2, ... vs newScore1, newScore2, ...).
+type StreamedVerdictBody = { reasonings: string[] };
+
+export type VerdictFields = {
+  count: number; // adjectives in the puzzle
+  scorePrefix: string;
+};
+
+type PartialVerdict = {
+  scores?: number[];
+  reasonings: string[];
+};
+
+export function wantsJudgeStream(req: Request): boolean {
+  return req.headers.get("accept")?.includes(JUDGE_STREAM_CONTENT_TYPE) ?? false;
+}
+
+// Reads a string field out of incomplete JSON, up to wherever the text stops.
+// An escape sequence cut off mid-way is left for the next chunk.
+function readPartialString(raw: string, field: string): string {
+  const start = raw.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return "";
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      value += ch;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = raw.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    value += { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" }[next] ?? next;
+    i++;
+  }
+  return value.trimStart();
+}
+
+// A score only counts once the number is terminated, so the "1" of a "10"
+// that hasn't fully arrived yet is never reported.
+function readPartialScore(raw: string, field: string): number | undefined {
+  const match = raw.match(new RegExp(`"${field}"\\s*:\\s*(\\d+)\\s*[,}]`));
+  const score = match ? Number(match[1]) : NaN;
+  return Number.isInteger(score) && score >= 1 && score <= 10 ? score : undefined;
+}
+
+export function parsePartialVerdict(raw: string, fields: VerdictFields): PartialVerdict {
+  const scores = numberedFields(fields.scorePrefix, fields.count).map((field) => readPartialScore(raw, field));
+  return {
+    scores: scores.every((score) => score !== undefined) ? (scores as number[]) : undefined,
+    reasonings: numberedFields("reasoning", fields.count).map((field) => readPartialString(raw, field)),
+  };
+}
+
+// Turns snapshots of the verdict into scores/reasoning events. Reasonings are
+// held back until the scores are out, so the client always sees them in order.
+function createProgressEmitter(send: (event: JudgeStreamEvent<never>) => void) {
+  let scoresSent = false;
+  const sent: string[] = [];
+
+  return (verdict: PartialVerdict) => {
+    if (!scoresSent) {
+      if (!verdict.scores) return;
+      send({ type: "scores", scores: verdict.scores });
+      scoresSent = true;
+    }
+    verdict.reasonings.forEach((text, index) => {
+      const already = sent[index] ?? "";
+      if (text.length > already.length && text.startsWith(already)) {
+        send({ type: "reasoning", index, delta: text.slice(already.length) });
+        sent[index] = text;
+      }
+    });
+  };
+}
+
+// Runs a judge call and streams its progress as NDJSON. `run` receives a
+// callback for the raw completion text so far; providers that can't stream
+// (or panel mode) simply never call it, and everything is sent at the end.
+export function streamVerdictResponse<T extends StreamedVerdictBody>(
+  fields: VerdictFields,
+  scoresOf: (result: T) => number[],
+  run: (onPartial: (raw: string) => void) => Promise<T>,
+  fail: (error: unknown) => JudgeFailure,
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: JudgeStreamEvent<T>) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      const emit = createProgressEmitter(send);
+
+      try {
+        const result = await run((raw) => emit(parsePartialVerdict(raw, fields)));
+        emit({ scores: scoresOf(result), reasonings: result.reasonings });
+        send({ type: "done", result });
+      } catch (error) {
+        const { status, body } = fail(error);
+        send({ type: "error", status, ...body });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": JUDGE_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+export type JudgeStreamResult<T> =
+  | { ok: true; result: T }
+  | { ok: false; status: number; body: JudgeErrorResponse };
+
+// Client side: consumes a successful response from a streaming request,
+// forwarding progress to the handlers. Falls back to reading plain JSON if
+// the server answered without streaming.
+export async function readJudgeStream<T>(
+  res: Response,
+  handlers: VerdictProgressHandlers,
+): Promise<JudgeStreamResult<T>> {
+  const streamFailed = { ok: false, status: 502, body: {} } as const;
+
+  if (!res.headers.get("content-type")?.includes(JUDGE_STREAM_CONTENT_TYPE) || !res.body) {
+    const result = (await res.json().catch(() => null)) as T | null;
+    return result ? { ok: true, result } : streamFailed;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  const handleLine = (line: string): JudgeStreamResult<T> | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as JudgeStreamEvent<T>;
+    switch (event.type) {
+      case "scores":
+        handlers.onScores?.(event.scores);
+        return null;
+      case "reasoning":
+        handlers.onReasoning?.(event.index, event.delta);
+        return null;
+      case "done":
+        return { ok: true, result: event.result };
+      case "error":
+        return { ok: false, status: event.status, body: { error: event.error, code: event.code } };
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split("\n");
+      buffered = done ? "" : lines.pop() ?? "";
+      for (const line of lines) {
+        const outcome = handleLine(line);
+        if (outcome) return outcome;
+      }
+      if (done) return streamFailed;
+    }
+  } catch (e) {
+    console.error(e);
+    return streamFailed;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,116 @@
+import type { JudgeProvider, JudgeTask } from "@/lib/judge";
+import { DEFAULT_PERSONA_ID, getPersona } from "@/lib/personas";
+
+// Offline judge for dev boxes, CI and demos. Verdicts are derived purely from
+// the request inputs, so the same answer always gets the same scores and quip.
+
+const LOW_QUIPS = [
+  "\"{noun}\" for {adjective}? I've seen more {adjective} energy in a tax form.",
+  "Calling \"{noun}\" {adjective} is like calling a puddle an ocean.",
+  "\"{noun}\" walked into the {adjective} audition and forgot its lines.",
+];
+
+const MID_QUIPS = [
+  "\"{noun}\" is {adjective} the way a screensaver is exciting: technically, yes.",
+  "There's some {adjective} in \"{noun}\", buried under a lot of beige.",
+  "\"{noun}\" gets a polite nod from the {adjective} department.",
+];
+
+const HIGH_QUIPS = [
+  "\"{noun}\" is so {adjective} it should be charging admission.",
+  "I hate to admit it, but \"{noun}\" is {adjective} to the bone.",
+  "\"{noun}\"? That's {adjective} with the volume turned all the way up.",
+];
+
+const APPEAL_ACCEPTED_QUIPS = [
+  "Fine. You argued \"{noun}\" into being more {adjective}. Don't get used to it.",
+  "The replay booth has spoken: \"{noun}\" is a bit more {adjective} than I gave it.",
+];
+
+const APPEAL_REJECTED_QUIPS = [
+  "I reviewed the tape. \"{noun}\" is exactly as {adjective} as I said.",
+  "Nice speech. \"{noun}\" is still not getting extra {adjective} points.",
+];
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+function fillQuip(quips: string[], seed: number, noun: string, adjective: string): string {
+  return quips[seed % quips.length]
+    .replace(/\{noun\}/g, noun)
+    .replace(/\{adjective\}/g, adjective);
+}
+
+// The default judge gets the base score; other personas drift by up to a
+// point either way so panel mode has some disagreement to take the median of.
+function mockScore(adjective: string, noun: string, persona: string): number {
+  const seed = hashString(`${adjective.toLowerCase()}|${noun.trim().toLowerCase()}`);
+  const base = (seed % 10) + 1;
+  if (persona === DEFAULT_PERSONA_ID) return base;
+  const drift = (hashString(`${persona}|${seed}`) % 3) - 1;
+  return Math.min(10, Math.max(1, base + drift));
+}
+
+function scoreQuip(score: number, noun: string, adjective: string): string {
+  const seed = hashString(`${noun}|${adjective}|quip`);
+  if (score <= 4) return fillQuip(LOW_QUIPS, seed, noun, adjective);
+  if (score <= 7) return fillQuip(MID_QUIPS, seed, noun, adjective);
+  return fillQuip(HIGH_QUIPS, seed, noun, adjective);
+}
+
+// Same numbered fields a real judge is asked for (see "@/lib/verdict")
+function mockVerdict(task: JudgeTask): Record<string, unknown> {
+  const { mockSignOff } = getPersona(task.persona);
+  const verdict: Record<string, unknown> = {};
+  if (task.kind === "score") {
+    task.adjectives.forEach((adjective, i) => {
+      const score = mockScore(adjective, task.noun, task.persona);
+      verdict[`score${i + 1}`] = score;
+      verdict[`reasoning${i + 1}`] = scoreQuip(score, task.noun, adjective) + mockSignOff;
+    });
+    return verdict;
+  }
+
+  // Appeals raise each score by 0-2 points depending on the appeal text,
+  // never lowering it and never exceeding 10.
+  const seed = hashString(`${task.noun}|${task.appealText.trim().toLowerCase()}`);
+  const newScores = task.originalScores.map((score, i) =>
+    Math.min(10, score + ((seed >>> (3 * i)) % 3)),
+  );
+  const appealQuip = (raised: boolean, adjective: string) =>
+    fillQuip(raised ? APPEAL_ACCEPTED_QUIPS : APPEAL_REJECTED_QUIPS, seed, task.noun, adjective) +
+    mockSignOff;
+  newScores.forEach((score, i) => {
+    verdict[`newScore${i + 1}`] = score;
+  });
+  verdict.accepted = newScores.some((score, i) => score > task.originalScores[i]);
+  task.adjectives.forEach((adjective, i) => {
+    verdict[`reasoning${i + 1}`] = appealQuip(newScores[i] > task.originalScores[i], adjective);
+  });
+  return verdict;
+}
+
+// Streaming hands out the same JSON a few characters at a time with a short
+// pause, so the typewriter reveal can be worked on without a real model.
+const STREAM_CHUNK_SIZE = 6;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+export function createMockJudge(): JudgeProvider {
+  return {
+    id: "mock",
+    model: "mock-judge",
+    complete: async ({ task }) => JSON.stringify(mockVerdict(task)),
+    stream: async function* ({ task }) {
+      const raw = JSON.stringify(mockVerdict(task));
+      for (let i = 0; i < raw.length; i += STREAM_CHUNK_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        yield raw.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { OpenAI } from "openai";
 
 let cachedClient: OpenAI | null = null;
+let cachedCompatibleClient: OpenAI | null = null;
 
 export function getOpenAIClient() {
   if (!cachedClient) {
@@ -16,5 +17,24 @@ export function getOpenAIClient() {
   return cachedClient;
 }
 
+// Client for any server that speaks the OpenAI chat completions API
+// (llama.cpp, vLLM, Ollama, LM Studio, ...). Most local servers ignore the
+// key, so a placeholder is sent when none is configured.
+export function getOpenAICompatibleClient() {
+  if (!cachedCompatibleClient) {
+    const baseURL = process.env.OFF_THE_CHARTS_JUDGE_BASE_URL;
+    if (!baseURL) {
+      throw new Error("OFF_THE_CHARTS_JUDGE_BASE_URL is not set in the environment");
+    }
+
+    cachedCompatibleClient = new OpenAI({
+      baseURL,
+      apiKey: process.env.OFF_THE_CHARTS_JUDGE_API_KEY || "not-needed",
+    });
+  }
+
+  return cachedCompatibleClient;
+}
+
 export const DEFAULT_MODEL_ID =
   process.env.OFF_THE_CHARTS_MODEL_ID || "gpt-5.2-2025-12-11";
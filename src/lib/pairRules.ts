@@ -0,0 +1,46 @@
+import type { AdjectiveEntry } from "@/data/adjectives";
+import type { PairRules } from "@/lib/pairSchedule";
+
+// What makes a fair daily pair, judged from the adjective metadata:
+// - only family-friendly entries that really are adjectives get scheduled
+// - near-synonyms are never paired; the two pillars would score the same
+// - difficulty is the sum of the tiers, plus one for antonyms, which are
+//   allowed but make for a harder hunt
+
+const ANTONYM_DIFFICULTY = 1;
+
+function lists(entry: AdjectiveEntry, key: "synonyms" | "antonyms", other: AdjectiveEntry): boolean {
+  return entry[key]?.includes(other.word) ?? false;
+}
+
+// Either entry listing the other counts
+export function areSynonyms(a: AdjectiveEntry, b: AdjectiveEntry): boolean {
+  return lists(a, "synonyms", b) || lists(b, "synonyms", a);
+}
+
+export function areAntonyms(a: AdjectiveEntry, b: AdjectiveEntry): boolean {
+  return lists(a, "antonyms", b) || lists(b, "antonyms", a);
+}
+
+export function isSchedulable(entry: AdjectiveEntry): boolean {
+  return entry.partOfSpeech === "adjective" && entry.familyFriendly;
+}
+
+export function pairDifficulty(a: AdjectiveEntry, b: AdjectiveEntry): number {
+  return a.tier + b.tier + (areAntonyms(a, b) ? ANTONYM_DIFFICULTY : 0);
+}
+
+// Rules for the pair scheduler, indexed like `entries`. The target is the
+// average difficulty of two schedulable entries, so the schedule hovers
+// around a typical pair rather than drifting easy or hard.
+export function pairRulesFor(entries: readonly AdjectiveEntry[]): PairRules {
+  const schedulable = entries.filter(isSchedulable);
+  const averageTier = schedulable.reduce((sum, e) => sum + e.tier, 0) / Math.max(1, schedulable.length);
+
+  return {
+    playable: (index) => isSchedulable(entries[index]),
+    compatible: (a, b) => !areSynonyms(entries[a], entries[b]),
+    difficulty: (a, b) => pairDifficulty(entries[a], entries[b]),
+    targetDifficulty: averageTier * 2,
+  };
+}
@@ -0,0 +1,227 @@
+// Long-horizon daily pair schedule. Hashing each date on its own lets the
+// same adjective (or pair) land on back-to-back days; this walks the days in
+// order from an epoch instead, so it can remember what's been used:
+// - no pair repeats within a cycle (a cycle ends once no fresh pair fits)
+// - no adjective comes back within `windowDays` of its last appearance
+// - with rules, only playable adjectives in compatible pairs, and the
+//   difficulty of any `balanceDays` in a row stays near the target average
+//
+// Each day's pool is a prefix of the adjective list, sized by the revision in
+// effect that day. Appending adjectives changes nothing until a revision with
+// a later start date is added, so days up to that date never reshuffle.
+// Rules work the same way: each set applies from its own start date, and days
+// before the first are paired without any.
+//
+// Reserved days (curated puzzles) keep their own adjectives and count towards
+// both limits: their pairs are never dealt, and their adjectives stay out of
+// the window on either side of them.
+
+export type PoolRevision = {
+  from: string; // YYYY-MM-DD, first day this pool size applies
+  size: number; // how many adjectives, from the start of the list, are in play
+};
+
+// Pairing rules, by index into the pool
+export type PairRules = {
+  playable(index: number): boolean;
+  compatible(a: number, b: number): boolean;
+  difficulty(a: number, b: number): number;
+  targetDifficulty: number; // per-day average the schedule steers towards
+};
+
+export type RuleRevision = {
+  from: string; // YYYY-MM-DD, first day these rules apply
+  rules: PairRules;
+};
+
+export type PairSchedulerOptions = {
+  pool: readonly string[];
+  seed: string;
+  epoch: string; // YYYY-MM-DD, day 0 of the schedule
+  windowDays: number;
+  revisions: readonly PoolRevision[];
+  ruleRevisions?: readonly RuleRevision[];
+  reserved?: Readonly<Record<string, readonly string[]>>; // YYYY-MM-DD -> adjectives
+  balanceDays?: number; // defaults to a week
+};
+
+export type PairScheduler = {
+  // The day's pair, or a reserved day's adjectives. Null for days before the epoch.
+  adjectivesFor(day: string): string[] | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Random draws per day before falling back to an exhaustive scan
+const RANDOM_ATTEMPTS = 64;
+const DEFAULT_BALANCE_DAYS = 7;
+// How far a day's difficulty may stray from what keeps its run on target
+const DIFFICULTY_TOLERANCE = 1;
+
+const NO_RULES: PairRules = {
+  playable: () => true,
+  compatible: () => true,
+  difficulty: () => 0,
+  targetDifficulty: 0,
+};
+
+function dayNumber(day: string): number {
+  return Math.round(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+}
+
+function hashSeed(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+// mulberry32: small, fast and identical on every JS runtime
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+export function createPairScheduler(options: PairSchedulerOptions): PairScheduler {
+  const { pool, seed, windowDays } = options;
+  const balanceDays = options.balanceDays ?? DEFAULT_BALANCE_DAYS;
+  const epoch = dayNumber(options.epoch);
+  const revisions = options.revisions
+    .map((r) => ({ from: dayNumber(r.from), size: Math.min(r.size, pool.length) }))
+    .sort((a, b) => a.from - b.from);
+  const ruleRevisions = (options.ruleRevisions ?? [])
+    .map((r) => ({ from: dayNumber(r.from), rules: r.rules }))
+    .sort((a, b) => a.from - b.from);
+
+  // By day index, as indexes into the pool
+  const reserved = new Map<number, number[]>();
+  Object.entries(options.reserved ?? {}).forEach(([day, words]) => {
+    const index = dayNumber(day) - epoch;
+    if (index >= 0) reserved.set(index, words.map((word) => pool.indexOf(word)).filter((i) => i >= 0));
+  });
+  const reservedPairs = new Set<string>();
+  reserved.forEach((indexes) =>
+    indexes.forEach((a, i) => indexes.slice(i + 1).forEach((b) => reservedPairs.add(pairKey(a, b)))),
+  );
+
+  const rng = createRng(hashSeed(seed));
+  const days: number[][] = []; // by index into pool, days[0] is the epoch
+  const difficulties: number[] = [];
+  const lastSeen = new Map<number, number>();
+  let usedPairs = new Set<string>();
+
+  const poolSizeOn = (day: number): number => {
+    let size = revisions[0]?.size ?? pool.length;
+    revisions.forEach((r) => {
+      if (r.from <= day) size = r.size;
+    });
+    return size;
+  };
+
+  const rulesOn = (day: number): PairRules => {
+    let rules = NO_RULES;
+    ruleRevisions.forEach((r) => {
+      if (r.from <= day) rules = r.rules;
+    });
+    return rules;
+  };
+
+  // Difficulty that would bring the last `balanceDays` days, today included,
+  // to the target average
+  const difficultyTarget = (rules: PairRules): number => {
+    const recent = balanceDays > 1 ? difficulties.slice(-(balanceDays - 1)) : [];
+    const missing = balanceDays - 1 - recent.length;
+    const sum = recent.reduce((total, d) => total + d, 0) + missing * rules.targetDifficulty;
+    return rules.targetDifficulty * balanceDays - sum;
+  };
+
+  const pickFrom = (eligible: number[], rules: PairRules, target: number): [number, number] | null => {
+    const fresh = (a: number, b: number) =>
+      a !== b && !usedPairs.has(pairKey(a, b)) && !reservedPairs.has(pairKey(a, b)) && rules.compatible(a, b);
+    const balanced = (a: number, b: number) =>
+      Math.abs(rules.difficulty(a, b) - target) <= DIFFICULTY_TOLERANCE;
+
+    for (let attempt = 0; attempt < RANDOM_ATTEMPTS; attempt++) {
+      const a = eligible[Math.floor(rng() * eligible.length)];
+      const b = eligible[Math.floor(rng() * eligible.length)];
+      if (fresh(a, b) && balanced(a, b)) return [a, b];
+    }
+    // Late in a cycle most pairs are taken; scan from a random starting point,
+    // giving up on the difficulty target before giving up on the cycle
+    const offset = Math.floor(rng() * eligible.length);
+    for (const accept of [balanced, () => true]) {
+      for (let i = 0; i < eligible.length; i++) {
+        const a = eligible[(i + offset) % eligible.length];
+        for (let k = 1; k < eligible.length; k++) {
+          const b = eligible[(i + offset + k) % eligible.length];
+          if (fresh(a, b) && accept(a, b)) return [a, b];
+        }
+      }
+    }
+    return null;
+  };
+
+  const scheduleNextDay = () => {
+    const index = days.length;
+    const size = poolSizeOn(epoch + index);
+    const rules = rulesOn(epoch + index);
+    const reservedToday = reserved.get(index);
+    if (reservedToday) {
+      reservedToday.forEach((i) => lastSeen.set(i, index));
+      days.push(reservedToday);
+      // Curated days are left out of the difficulty balance
+      difficulties.push(rules.targetDifficulty);
+      return;
+    }
+    const playable: number[] = [];
+    for (let i = 0; i < size; i++) {
+      if (rules.playable(i)) playable.push(i);
+    }
+    // Two adjectives leave the rotation each day, so a window that's too wide
+    // for the pool is narrowed rather than left unsatisfiable.
+    const window = Math.max(0, Math.min(windowDays, Math.floor(playable.length / 2) - 1));
+    const upcoming = new Set<number>();
+    for (let ahead = 1; ahead <= window; ahead++) {
+      reserved.get(index + ahead)?.forEach((i) => upcoming.add(i));
+    }
+    const eligible = playable.filter((i) => {
+      const seen = lastSeen.get(i);
+      return (seen === undefined || index - seen > window) && !upcoming.has(i);
+    });
+
+    const target = difficultyTarget(rules);
+    let pair = pickFrom(eligible, rules, target);
+    if (!pair) {
+      // Every pair that fits the window has been used: start a new cycle
+      usedPairs = new Set();
+      pair = pickFrom(eligible, rules, target);
+    }
+    if (!pair) {
+      throw new Error("Pair scheduler rules leave no valid pair; loosen the synonyms or the window");
+    }
+    usedPairs.add(pairKey(pair[0], pair[1]));
+    lastSeen.set(pair[0], index);
+    lastSeen.set(pair[1], index);
+    days.push(pair);
+    difficulties.push(rules.difficulty(pair[0], pair[1]));
+  };
+
+  return {
+    adjectivesFor(day) {
+      const index = dayNumber(day) - epoch;
+      if (Number.isNaN(index) || index < 0) return null;
+      while (days.length <= index) scheduleNextDay();
+      return days[index].map((i) => pool[i]);
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { PERSONA_IDS, PersonaId } from "@/lib/personas";
+import type { ScoreVerdict } from "@/lib/verdict";
+
+// Panel mode: several judges score the same answer independently and the
+// final per-adjective score is the median, which smooths out the
+// reload-to-reload swings a single sample can have.
+
+export type PanelistVerdict = {
+  persona: PersonaId;
+  scores: number[]; // one per adjective
+  // The judge's remark on the adjective they scored lowest (the first one on
+  // a tie), since that is usually what explains a disagreement.
+  quip: string;
+};
+
+export type PanelResult = {
+  verdict: ScoreVerdict;
+  panel: PanelistVerdict[];
+};
+
+const DEFAULT_PANEL_SIZE = 3;
+
+// The lead judge (the player's pick) plus the next personas in registry order.
+export function panelPersonasFor(lead: PersonaId): PersonaId[] {
+  const configured = Number(process.env.OFF_THE_CHARTS_PANEL_SIZE);
+  const size = Math.min(
+    PERSONA_IDS.length,
+    Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_PANEL_SIZE,
+  );
+  const start = PERSONA_IDS.indexOf(lead);
+  return Array.from({ length: size }, (_, i) => PERSONA_IDS[(start + i) % PERSONA_IDS.length]);
+}
+
+// With an even number of surviving verdicts the lower middle value wins,
+// matching the prompt's "when unsure, choose the lower score" rule.
+export function medianScore(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : Math.floor((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+// Runs every panelist in parallel. Failed panelists are dropped; the call only
+// fails if no judge at all produced a verdict.
+export async function runScoringPanel(
+  personas: PersonaId[],
+  scoreWith: (persona: PersonaId) => Promise<ScoreVerdict>,
+): Promise<PanelResult> {
+  const settled = await Promise.allSettled(personas.map((persona) => scoreWith(persona)));
+
+  const panel: PanelistVerdict[] = [];
+  const verdicts: ScoreVerdict[] = [];
+  let firstError: unknown = null;
+  settled.forEach((result, i) => {
+    if (result.status === "rejected") {
+      console.warn(`Panel judge ${personas[i]} failed:`, result.reason);
+      firstError ??= result.reason;
+      return;
+    }
+    const v = result.value;
+    verdicts.push(v);
+    const lowest = v.scores.indexOf(Math.min(...v.scores));
+    panel.push({
+      persona: personas[i],
+      scores: v.scores,
+      quip: v.reasonings[lowest],
+    });
+  });
+
+  if (verdicts.length === 0) {
+    throw firstError;
+  }
+
+  // Each adjective's reasoning comes from the judge whose score is closest to
+  // the median, so it explains the number shown. On a tie the earlier panelist
+  // wins, which keeps the lead judge (the player's pick) talking whenever it
+  // agrees.
+  const scores = verdicts[0].scores.map((_, i) => medianScore(verdicts.map((v) => v.scores[i])));
+  const reasonings = scores.map((median, i) => {
+    const closest = verdicts.reduce((best, v) =>
+      Math.abs(v.scores[i] - median) < Math.abs(best.scores[i] - median) ? v : best,
+    );
+    return closest.reasonings[i];
+  });
+  return {
+    verdict: { scores, reasonings },
+    panel,
+  };
+}
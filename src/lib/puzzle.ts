@@ -0,0 +1,238 @@
+import {
+  ADJECTIVE_POOL_REVISIONS,
+  adjectiveMetadataRevisions,
+  BASE_ADJECTIVES,
+  pickDailyAdjectives,
+} from "@/data/adjectives";
+import { PLACEHOLDER_CATEGORIES } from "@/data/categories";
+import { PUZZLE_SCHEDULE } from "@/data/schedule";
+import { DEFAULT_GAME_RULES, GameRules, reviveRules } from "@/lib/gameRules";
+import { pairRulesFor } from "@/lib/pairRules";
+import { createPairScheduler } from "@/lib/pairSchedule";
+import { puzzleDayAt } from "@/lib/rollover";
+
+// Shared by the client (to build the board) and the API routes (to decide
+// which adjectives a guess is scored against), so both always agree on the
+// day's puzzle.
+
+// How many adjectives a puzzle may have, one pillar each. The scheduler
+// deals pairs; curated dates, debug games and challenges can go up to four.
+export const MIN_ADJECTIVES = 2;
+export const MAX_ADJECTIVES = 4;
+
+// Distinct adjectives from the pool, within the bounds above
+export function isValidAdjectiveSet(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= MIN_ADJECTIVES &&
+    value.length <= MAX_ADJECTIVES &&
+    new Set(value).size === value.length &&
+    value.every((a) => typeof a === "string" && BASE_ADJECTIVES.includes(a))
+  );
+}
+
+// "spooky & cozy", "spooky, cozy & loud"
+export function formatAdjectives(adjectives: string[]): string {
+  if (adjectives.length < 2) return adjectives.join("");
+  return `${adjectives.slice(0, -1).join(", ")} & ${adjectives[adjectives.length - 1]}`;
+}
+
+// Day 0 of the pair scheduler, and the first day seed version 7 deals.
+// Days before it keep the pair they were dealt by hashing the date.
+const SCHEDULE_EPOCH = "2026-11-01";
+// Days before an adjective can come up again
+const REPEAT_WINDOW_DAYS = 14;
+
+const SCHEDULER_OPTIONS = {
+  pool: BASE_ADJECTIVES,
+  epoch: SCHEDULE_EPOCH,
+  windowDays: REPEAT_WINDOW_DAYS,
+  revisions: ADJECTIVE_POOL_REVISIONS,
+};
+
+const scheduler = createPairScheduler({
+  ...SCHEDULER_OPTIONS,
+  seed: "daily-v7",
+  ruleRevisions: adjectiveMetadataRevisions().map(({ from, entries }) => ({ from, rules: pairRulesFor(entries) })),
+  reserved: Object.fromEntries(Object.entries(PUZZLE_SCHEDULE).map(([day, puzzle]) => [day, puzzle.adjectives])),
+});
+
+function hashedPairFor(dateKey: string, pool: string[]): string[] {
+  const selected = pickDailyAdjectives(dateKey, 2, pool);
+  if (selected.length !== 2) {
+    throw new Error("Expected exactly 2 adjectives");
+  }
+  return [selected[0], selected[1]];
+}
+
+type SeedVersion = {
+  from: string; // YYYY-MM-DD, first day this version deals
+  version: number;
+  deal(dateKey: string): string[];
+};
+
+// Which seed version deals which days, and how. Each deals every day from its
+// start until the next one's, and ends up in those days' dateKeys, so a day
+// already dealt never changes version: daily games, archive replays and the
+// history all keep agreeing on its pair. To reshuffle, add a version starting
+// a few days out rather than changing one in use. (None of this is about how
+// games are saved, see src/lib/storage.ts.)
+// Metadata corrections don't need a new version: they go in as dated
+// revisions (see ADJECTIVE_METADATA_REVISIONS), which leave earlier days alone.
+const SEED_VERSIONS: SeedVersion[] = [
+  {
+    // Each dateKey hashed on its own, from the 178 adjectives the pool held then
+    from: "0000-01-01",
+    version: 6,
+    deal: (dateKey) => hashedPairFor(dateKey, BASE_ADJECTIVES.slice(0, 178)),
+  },
+  {
+    from: SCHEDULE_EPOCH,
+    version: 7,
+    deal: (dateKey) => scheduler.adjectivesFor(dateKey.slice(0, 10)) ?? hashedPairFor(dateKey, BASE_ADJECTIVES),
+  },
+];
+
+function seedVersionOn(day: string): SeedVersion {
+  return SEED_VERSIONS.reduce((current, seed) => (seed.from <= day ? seed : current), SEED_VERSIONS[0]);
+}
+
+// Only the version that deals the key's day is valid for it
+function isSupportedKey(dateKey: string): boolean {
+  const match = /^(\d{4}-\d{2}-\d{2})-v(\d+)$/.exec(dateKey);
+  return !!match && seedVersionOn(match[1]).version === Number(match[2]);
+}
+
+// day is YYYY-MM-DD
+export function dailyKeyFor(day: string): string {
+  return `${day}-v${seedVersionOn(day).version}`;
+}
+
+// The puzzle day follows the rollover policy, not the UTC date
+export function todayKey(now: Date = new Date()) {
+  return dailyKeyFor(puzzleDayAt(now));
+}
+
+// Whether a saved daily game is still today's puzzle
+export function isTodaysPuzzle(dateKey: string, today: string = todayKey()): boolean {
+  return dateKey.slice(0, 10) === today.slice(0, 10) && isSupportedKey(dateKey);
+}
+
+// Earliest date the archive offers, from well before the pair scheduler
+export const ARCHIVE_FIRST_DAY = "2026-01-01";
+
+// A replay is keyed like the day's own daily game, with the seed version that
+// dealt it, so it gets the pair players had that day (and the one in their
+// history), not whatever the current version would deal.
+export function archiveKeyFor(day: string): string {
+  return dailyKeyFor(day);
+}
+
+// Past days only: today's puzzle is played as the daily game.
+export function isArchiveDay(day: string, today: string = todayKey()): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) && day >= ARCHIVE_FIRST_DAY && day < today.slice(0, 10);
+}
+
+// Curated dates in src/data/schedule.ts win over the dealt pair, whatever
+// the seed version.
+export function dailyAdjectivesFor(dateKey: string): string[] {
+  const scheduled = PUZZLE_SCHEDULE[dateKey.slice(0, 10)];
+  if (scheduled) return scheduled.adjectives;
+  return seedVersionOn(dateKey.slice(0, 10)).deal(dateKey);
+}
+
+// Rules for a new game of a dated puzzle: the defaults, unless the schedule
+// has a variant for the day.
+export function dailyRulesFor(dateKey: string): GameRules {
+  const variant = PUZZLE_SCHEDULE[dateKey.slice(0, 10)]?.rules;
+  return variant ? reviveRules({ ...DEFAULT_GAME_RULES, ...variant }) : DEFAULT_GAME_RULES;
+}
+
+// Placeholder categories for a dated puzzle, one per round.
+export function dailyCategoriesFor(dateKey: string, rounds: number): string[] {
+  const scheduled = PUZZLE_SCHEDULE[dateKey.slice(0, 10)]?.categories;
+  if (scheduled && scheduled.length === rounds) return scheduled;
+
+  let hash = 0;
+  for (let i = 0; i < dateKey.length; i++) {
+    hash = (hash * 31 + dateKey.charCodeAt(i)) >>> 0;
+  }
+  const selected: string[] = [];
+  const available = [...PLACEHOLDER_CATEGORIES];
+  for (let round = 0; round < rounds; round++) {
+    if (available.length === 0) available.push(...PLACEHOLDER_CATEGORIES);
+    hash = (hash * 1664525 + 1013904223) >>> 0; // LCG
+    const idx = hash % available.length;
+    selected.push(available[idx]);
+    available.splice(idx, 1);
+  }
+  return selected;
+}
+
+// What the client tells the server about the game a guess belongs to. Daily
+// and archive puzzles are identified by their key alone; the server re-derives
+// the adjectives. Debug and challenge games name their adjectives, which must
+// come from the pool.
+export type PuzzleRef =
+  | { mode: "daily" | "archive"; dateKey: string }
+  | { mode: "debug-random" | "challenge"; adjectives: string[] };
+
+export type ResolvedPuzzle = {
+  ref: PuzzleRef;
+  adjectives: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between the key's date and the server's, or null for keys that don't
+// name the seed version their day was dealt with.
+function daysFromToday(dateKey: string, now: Date): number | null {
+  if (!isSupportedKey(dateKey)) return null;
+  const date = Date.parse(`${dateKey.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date)) return null;
+  const today = Date.parse(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+  return Math.round((date - today) / DAY_MS);
+}
+
+// Depending on the rollover policy and their timezone, players may be a day
+// ahead of or behind the server's UTC date, so daily keys within one day of it
+// are accepted.
+function isPlayableDailyKey(dateKey: string, now: Date): boolean {
+  const offset = daysFromToday(dateKey, now);
+  return offset !== null && Math.abs(offset) <= 1;
+}
+
+// Same leeway for the archive: "yesterday" for the player may be today here.
+function isPlayableArchiveKey(dateKey: string, now: Date): boolean {
+  const offset = daysFromToday(dateKey, now);
+  return offset !== null && offset <= 0 && dateKey.slice(0, 10) >= ARCHIVE_FIRST_DAY;
+}
+
+export function resolvePuzzle(value: unknown, now: Date = new Date()): ResolvedPuzzle | null {
+  if (!value || typeof value !== "object") return null;
+  const ref = value as Record<string, unknown>;
+
+  if (ref.mode === "daily") {
+    if (typeof ref.dateKey !== "string" || !isPlayableDailyKey(ref.dateKey, now)) return null;
+    return {
+      ref: { mode: "daily", dateKey: ref.dateKey },
+      adjectives: dailyAdjectivesFor(ref.dateKey),
+    };
+  }
+
+  if (ref.mode === "archive") {
+    if (typeof ref.dateKey !== "string" || !isPlayableArchiveKey(ref.dateKey, now)) return null;
+    return {
+      ref: { mode: "archive", dateKey: ref.dateKey },
+      adjectives: dailyAdjectivesFor(ref.dateKey),
+    };
+  }
+
+  if (ref.mode === "debug-random" || ref.mode === "challenge") {
+    if (!isValidAdjectiveSet(ref.adjectives)) return null;
+    const adjectives = [...ref.adjectives];
+    return { ref: { mode: ref.mode, adjectives }, adjectives };
+  }
+
+  return null;
+}
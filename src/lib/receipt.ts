@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { PuzzleRef } from "@/lib/puzzle";
+import { getSpentReceiptStore } from "@/lib/spentReceipts";
+
+// Signed record of a verdict issued by /api/score (or revised by /api/appeal).
+// The client stores it opaquely and hands it back when appealing, so the
+// server never has to trust client-reported adjectives, answers or scores.
+export type ScoreReceipt = {
+  v: 1;
+  puzzle: PuzzleRef;
+  adjectives: string[];
+  noun: string;
+  scores: number[]; // one per adjective
+  appealed: boolean;
+  issuedAt: number;
+};
+
+const RECEIPT_VERSION = 1;
+
+// Appeals happen on the end screen, normally minutes after scoring; the
+// window is generous so a game left open overnight can still be appealed.
+const RECEIPT_MAX_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+
+let fallbackSecret: Buffer | null = null;
+
+function getReceiptSecret(): Buffer {
+  const configured = process.env.OFF_THE_CHARTS_RECEIPT_SECRET;
+  if (configured) return Buffer.from(configured, "utf8");
+
+  // Without a configured secret, receipts are only valid for the lifetime of
+  // this server process. Fine for local dev; set the secret in production.
+  if (!fallbackSecret) {
+    console.warn("OFF_THE_CHARTS_RECEIPT_SECRET is not set; using an ephemeral receipt secret");
+    fallbackSecret = randomBytes(32);
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getReceiptSecret()).update(payload).digest("base64url");
+}
+
+export function issueReceipt(receipt: Omit<ScoreReceipt, "v" | "issuedAt">): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...receipt, v: RECEIPT_VERSION, issuedAt: Date.now() }),
+    "utf8",
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the receipt only if the signature matches and it hasn't expired.
+// A valid receipt can be presented any number of times; appeals also go
+// through spendReceipt so each receipt is only good for one.
+export function verifyReceipt(token: unknown, now: number = Date.now()): ScoreReceipt | null {
+  if (typeof token !== "string") return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload), "utf8");
+  const actual = Buffer.from(signature, "utf8");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const receipt = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as ScoreReceipt;
+    if (receipt.v !== RECEIPT_VERSION) return null;
+    if (typeof receipt.issuedAt !== "number" || now - receipt.issuedAt > RECEIPT_MAX_AGE_MS) {
+      return null;
+    }
+    return receipt;
+  } catch {
+    return null;
+  }
+}
+
+function signatureOf(token: string): string {
+  return token.slice(token.lastIndexOf(".") + 1);
+}
+
+// Marks a verified receipt as used, in a store every server instance shares
+// (see src/lib/spentReceipts.ts), until it would have expired anyway. False
+// if it already was.
+export function spendReceipt(token: string, receipt: ScoreReceipt): Promise<boolean> {
+  return getSpentReceiptStore().add(signatureOf(token), receipt.issuedAt + RECEIPT_MAX_AGE_MS);
+}
+
+// For an appeal that failed before the judge ruled, so it can be sent again
+export function refundReceipt(token: string): Promise<void> {
+  return getSpentReceiptStore().remove(signatureOf(token));
+}
@@ -0,0 +1,138 @@
+import type { GameState } from "@/hooks/useDailyGameState";
+import { MAX_ANSWER_LENGTH } from "@/lib/answerValidation";
+import { decodeRules, EncodedRules, encodeRules, GameRules, isDefaultRules } from "@/lib/gameRules";
+import { combinedScore, pillarTotals } from "@/lib/scoring";
+import { isValidAdjectiveSet } from "@/lib/puzzle";
+import { clampInt, decodeUrlPayload, encodeUrlPayload } from "@/lib/urlPayload";
+
+// Everything the result card shows, packed into the share URL so the server
+// can render it without any stored state. The payload isn't signed (anyone can
+// craft a card), so decoding only accepts adjectives from the pool and
+// clamps everything else to what the game could actually produce.
+
+export type ResultCard = {
+  label: string; // e.g. "Oct 19, 2026" or "Random game"
+  adjectives: string[];
+  pillars: number[]; // cumulative points per pillar, one per adjective
+  best?: {
+    noun: string;
+    scores: number[];
+    quip: string;
+  };
+  rules: GameRules; // decides how the pillars fill
+};
+
+// Version 1 cards only ever had two adjectives, with the adjectives, pillars
+// and best scores listed one by one; they are still decoded.
+const CARD_VERSION = 2;
+const MAX_LABEL_LENGTH = 32;
+const MAX_QUIP_LENGTH = 240;
+// Ten points a round, for as many rounds as the rules allow
+const MAX_PILLAR_POINTS = 999;
+
+type EncodedCard = [
+  version: number,
+  label: string,
+  adjectives: string[],
+  pillars: number[],
+  best?: [noun: string, scores: number[], quip: string] | null,
+  rules?: EncodedRules, // only for variants; missing means the defaults
+];
+
+// Rewrites a version 1 payload in the current layout
+function upgradeV1(value: unknown[]): unknown[] {
+  const [, label, adjective1, adjective2, pillar1, pillar2, best, rules] = value;
+  const [noun, score1, score2, quip] = Array.isArray(best) ? best : [];
+  return [
+    1,
+    label,
+    [adjective1, adjective2],
+    [pillar1, pillar2],
+    Array.isArray(best) ? [noun, [score1, score2], quip] : best,
+    rules,
+  ];
+}
+
+export function encodeResultCard(card: ResultCard): string {
+  const encoded: EncodedCard = [
+    CARD_VERSION,
+    card.label,
+    card.adjectives,
+    card.pillars,
+  ];
+  const hasRules = !isDefaultRules(card.rules);
+  if (card.best || hasRules) {
+    const { best } = card;
+    encoded.push(best ? [best.noun, best.scores, best.quip] : null);
+  }
+  if (hasRules) encoded.push(encodeRules(card.rules));
+  return encodeUrlPayload(encoded);
+}
+
+export function decodeResultCard(payload: string): ResultCard | null {
+  const value = decodeUrlPayload(payload);
+  if (!Array.isArray(value) || (value[0] !== 1 && value[0] !== CARD_VERSION)) return null;
+
+  const [, label, adjectives, encodedPillars, best, rules] = value[0] === 1 ? upgradeV1(value) : value;
+  if (
+    typeof label !== "string" ||
+    !isValidAdjectiveSet(adjectives) ||
+    !Array.isArray(encodedPillars) ||
+    encodedPillars.length !== adjectives.length
+  ) {
+    return null;
+  }
+  const pillars = encodedPillars.map((points) => clampInt(points, 0, MAX_PILLAR_POINTS));
+  if (pillars.some((points) => points === null)) return null;
+
+  const card: ResultCard = {
+    label: label.slice(0, MAX_LABEL_LENGTH),
+    adjectives,
+    pillars: pillars as number[],
+    rules: decodeRules(rules),
+  };
+
+  if (Array.isArray(best)) {
+    const [noun, encodedScores, quip] = best as unknown[];
+    const scores = Array.isArray(encodedScores) ? encodedScores.map((score) => clampInt(score, 0, 10)) : [];
+    if (
+      typeof noun === "string" &&
+      typeof quip === "string" &&
+      scores.length === adjectives.length &&
+      scores.every((score) => score !== null)
+    ) {
+      card.best = {
+        noun: noun.slice(0, MAX_ANSWER_LENGTH),
+        scores: scores as number[],
+        quip: quip.slice(0, MAX_QUIP_LENGTH),
+      };
+    }
+  }
+  return card;
+}
+
+// The best answer is the highest combined score (earliest on a tie, like the
+// end screen's BEST badge). Its quip is the remark for the adjective it
+// scored highest on, since that's the one worth bragging about.
+export function resultCardFromState(state: GameState, label: string): ResultCard {
+  let best: ResultCard["best"];
+  state.guesses.forEach((g) => {
+    if (!g.scores || g.isPass) return;
+    const combined = combinedScore(g.scores);
+    if (combined === 0 || (best && combined <= combinedScore(best.scores))) return;
+    const quipIndex = g.scores.indexOf(Math.max(...g.scores));
+    best = {
+      noun: g.noun,
+      scores: g.scores,
+      quip: (g.reasonings?.[quipIndex] ?? "").slice(0, MAX_QUIP_LENGTH),
+    };
+  });
+
+  return {
+    label: label.slice(0, MAX_LABEL_LENGTH),
+    adjectives: state.adjectives,
+    pillars: pillarTotals(state.guesses, state.adjectives.length),
+    best,
+    rules: state.rules,
+  };
+}
@@ -0,0 +1,55 @@
+// When the daily puzzle turns over. Two policies:
+// - "local": at the player's own midnight, so everyone gets a full calendar
+//   day with each puzzle (the default)
+// - a fixed release time in UTC ("05:00"), so everyone switches at the same
+//   instant; before it, the player is still on the previous day's puzzle
+//
+// Either way the puzzle day is at most a day away from the UTC date, which is
+// the leeway the API routes give daily keys (see resolvePuzzle).
+
+export type RolloverPolicy =
+  | { kind: "local-midnight" }
+  | { kind: "fixed"; utcMinutes: number }; // minutes after UTC midnight
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parsePolicy(configured: string | undefined): RolloverPolicy {
+  const value = configured?.trim().toLowerCase();
+  if (!value || value === "local") return { kind: "local-midnight" };
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (hours < 24 && minutes < 60) return { kind: "fixed", utcMinutes: hours * 60 + minutes };
+
+  console.warn(`Unknown rollover "${configured}", using local midnight`);
+  return { kind: "local-midnight" };
+}
+
+// NEXT_PUBLIC_ so the client sees it too; Next.js inlines it at build time.
+export const ROLLOVER_POLICY: RolloverPolicy = parsePolicy(
+  process.env.NEXT_PUBLIC_OFF_THE_CHARTS_ROLLOVER,
+);
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// YYYY-MM-DD of the puzzle that's live at `now`
+export function puzzleDayAt(now: Date, policy: RolloverPolicy = ROLLOVER_POLICY): string {
+  if (policy.kind === "local-midnight") {
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+  return new Date(now.getTime() - policy.utcMinutes * MINUTE_MS).toISOString().slice(0, 10);
+}
+
+// When the puzzle after the one live at `now` comes out
+export function nextRolloverAt(now: Date, policy: RolloverPolicy = ROLLOVER_POLICY): Date {
+  if (policy.kind === "local-midnight") {
+    // Date handles month ends and DST days
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  }
+  const day = Date.parse(`${puzzleDayAt(now, policy)}T00:00:00Z`);
+  return new Date(day + DAY_MS + policy.utcMinutes * MINUTE_MS);
+}
@@ -0,0 +1,89 @@
+import type { AnswerRejection } from "@/lib/answerValidation";
+import { JUDGE_STREAM_CONTENT_TYPE, readJudgeStream, VerdictProgressHandlers } from "@/lib/judgeStream";
+import type { PanelistVerdict } from "@/lib/panel";
+import type { PersonaId } from "@/lib/personas";
+import type { PuzzleRef } from "@/lib/puzzle";
+
+// Browser-side wrapper around POST /api/score, shared by the Game component
+// (first attempt) and the retry queue in useDailyGameState.
+
+export type ScoreRequest = {
+  puzzle: PuzzleRef;
+  noun: string;
+  previousNouns: string[];
+  placeholderCategory?: string;
+  persona: PersonaId;
+  panel?: boolean;
+};
+
+export type ScoreResponse = {
+  scores: number[]; // one per adjective, in the puzzle's order
+  reasonings: string[];
+  receipt?: string;
+  // Present when the guess was scored by a judge panel
+  panel?: PanelistVerdict[];
+};
+
+export type JudgeErrorResponse = {
+  error?: string;
+  code?: string;
+  rejection?: AnswerRejection;
+};
+
+export type ScoreOutcome =
+  | { kind: "scored"; data: ScoreResponse }
+  // The server refused the answer itself; retrying won't help.
+  | { kind: "rejected"; rejection: AnswerRejection }
+  // The puzzle is no longer accepted (e.g. the day has passed); retrying won't help.
+  | { kind: "expired" }
+  // Network trouble, a server error or a judge that couldn't decide.
+  | { kind: "failed"; invalidVerdict: boolean };
+
+function failedOutcome(body: JudgeErrorResponse): ScoreOutcome {
+  if (body.code === "invalid_answer" && body.rejection) {
+    return { kind: "rejected", rejection: body.rejection };
+  }
+  if (body.code === "invalid_puzzle") {
+    return { kind: "expired" };
+  }
+  return { kind: "failed", invalidVerdict: body.code === "invalid_verdict" };
+}
+
+// Passing progress handlers switches the request to streaming mode; the
+// outcome is the same either way once the verdict is complete.
+export async function requestScore(
+  request: ScoreRequest,
+  progress?: VerdictProgressHandlers,
+): Promise<ScoreOutcome> {
+  let res: Response;
+  try {
+    res = await fetch("/api/score", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(progress ? { Accept: JUDGE_STREAM_CONTENT_TYPE } : {}),
+      },
+      body: JSON.stringify(request),
+    });
+  } catch (e) {
+    console.error(e);
+    return { kind: "failed", invalidVerdict: false };
+  }
+
+  if (!res.ok) {
+    return failedOutcome((await res.json().catch(() => ({}))) as JudgeErrorResponse);
+  }
+
+  let data: ScoreResponse | null;
+  if (progress) {
+    const streamed = await readJudgeStream<ScoreResponse>(res, progress);
+    if (!streamed.ok) return failedOutcome(streamed.body);
+    data = streamed.result;
+  } else {
+    data = (await res.json().catch(() => null)) as ScoreResponse | null;
+  }
+  if (!data || !Array.isArray(data.scores) || !data.scores.every((s) => typeof s === "number")) {
+    return { kind: "failed", invalidVerdict: false };
+  }
+  return { kind: "scored", data };
+}
@@ -0,0 +1,155 @@
+import type { JudgeProvider } from "@/lib/judge";
+import { panelPersonasFor, PanelistVerdict, runScoringPanel } from "@/lib/panel";
+import { JudgePersona, PERSONAS } from "@/lib/personas";
+import {
+  countWord,
+  numberedFields,
+  requestVerdict,
+  ScoreVerdict,
+  scoreVerdictSchema,
+  scoreVerdictValidator,
+} from "@/lib/verdict";
+
+// The judging half of /api/score: prompt building, the judge call(s) and
+// panel aggregation. Kept separate from the route so the calibration script
+// exercises exactly the same path.
+
+export type ScoreGuessInput = {
+  adjectives: string[]; // scored independently, one verdict each
+  noun: string;
+  previousNouns: string[];
+  persona: JudgePersona;
+  placeholderCategory?: string;
+  panel: boolean;
+  // Raw completion text as it streams in. Panel mode doesn't stream, since
+  // the final scores aren't known until every judge has answered.
+  onPartial?: (raw: string) => void;
+};
+
+export type ScoreGuessResult = {
+  verdict: ScoreVerdict;
+  panel?: PanelistVerdict[];
+};
+
+export async function scoreGuess(
+  judge: JudgeProvider,
+  input: ScoreGuessInput,
+): Promise<ScoreGuessResult> {
+  const { adjectives, noun, previousNouns, placeholderCategory } = input;
+
+  const scoreWith = (panelist: JudgePersona) =>
+    requestVerdict(
+      judge,
+      {
+        task: {
+          kind: "score",
+          adjectives,
+          noun,
+          previousNouns,
+          persona: panelist.id,
+        },
+        prompt: buildScoringPrompt(adjectives, noun, previousNouns, panelist, placeholderCategory),
+        // Room for a score and a sentence per adjective
+        maxTokens: 90 * adjectives.length,
+        responseSchema: scoreVerdictSchema(adjectives.length),
+      },
+      scoreVerdictValidator(adjectives.length),
+      input.panel ? undefined : input.onPartial,
+    );
+
+  if (input.panel) {
+    return runScoringPanel(panelPersonasFor(input.persona.id), (id) => scoreWith(PERSONAS[id]));
+  }
+  return { verdict: await scoreWith(input.persona) };
+}
+
+function buildScoringPrompt(
+  adjectives: string[],
+  noun: string,
+  previousNouns: string[],
+  persona: JudgePersona,
+  placeholderCategory?: string,
+): string {
+  const allAnswers = [...previousNouns, noun];
+
+  const indexedAnswers =
+    allAnswers.length === 0
+      ? "(none yet)"
+      : allAnswers
+          .map((answer, index) => `${index}: ${answer}`)
+          .join("; ");
+
+  const count = countWord(adjectives.length);
+  const all = adjectives.length === 2 ? "BOTH" : `ALL ${count}`;
+
+  const categoryContext = placeholderCategory 
+    ? `\n\nCONTEXT NOTE: The player saw a prompt suggesting they try a "${placeholderCategory}". This is provided ONLY for context to help you understand why they might have given this type of answer. Do NOT use this to penalize them - if they gave a different type of answer, that's perfectly fine. Score based solely on how well the answer matches the ${count.toLowerCase()} adjectives, regardless of whether it matches the suggested category type.`
+    : "";
+
+  const adjectiveLines = adjectives
+    .map((adjective, i) => `ADJECTIVE ${i + 1}: ${adjective}`)
+    .join("\n");
+  const reasoningLines = numberedFields("reasoning", adjectives.length)
+    .map((field) => `- ${field}: A single, MEMORABLE sentence in your ${persona.voice}. ${persona.reasoningStyle}`)
+    .join("\n");
+  const jsonShape = [
+    ...adjectives.map((_, i) => `"score${i + 1}": <integer 1-10 for adjective${i + 1}>`),
+    ...adjectives.map((_, i) => `"reasoning${i + 1}": "<one characterful sentence for adjective${i + 1}>"`),
+  ].join(", ");
+
+  return `You are ${persona.role}. ${persona.temperament}
+
+${persona.critical}
+
+The player is given ${count} ADJECTIVES and tries to name WORDS AND PHRASES that feel like strong, vivid matches to ${all} adjectives simultaneously.
+Your job is to rate each answer on how well it matches EACH adjective separately (1–10 for each), then give a CHARACTERFUL explanation in your own voice, as if you are talking directly to the contestant on stage.${categoryContext}
+
+SCORING SCALE (1–10 for EACH adjective, you MUST use the whole range):
+- 1–2 = very weak fit; barely or not really connected to the adjective.
+- 3–4 = partial or generic fit; some connection, but far from ideal.
+- 5–6 = decent fit; clearly on theme, but missing key aspects.
+- 7–8 = strong fit; vivid and satisfying, but still leaving clear room to feel even more like the adjective.
+- 9    = excellent fit; extremely strong and clearly on-theme.
+- 10   = iconic answer for this adjective: as strong and on-theme as you would reasonably hope for in a party game.
+
+IMPORTANT: obscure, specific, or surprising answers are WELCOME.
+- Do NOT lower a score just because an answer is niche, uncommon, personal, or oddly specific.
+- As long as the concept clearly embodies the adjective, it can earn a very high score, including 10/10.
+- Score each adjective INDEPENDENTLY. An answer might be a 10/10 for one adjective and a 6/10 for ${adjectives.length === 2 ? "the other" : "another"}, and that's perfectly fine.
+
+CALIBRATION (how to think about the scale):
+- Imagine a range of good answers for each adjective, not a single \"right\" one.
+- A 10/10 should feel like it sits at the very top of that range: a delightfully strong match you would happily celebrate on the show.
+- Most reasonable answers should land somewhere in the 3–8 range, but do NOT be so strict that 10/10 almost never occurs; it is fine for obviously excellent answers to reach 10/10.
+- Use the full 1–10 range over many games; avoid clustering everything at the very top, but do not treat 10 as nearly forbidden.
+
+PROGRESSION BONUS (player trajectory matters):
+- First, decide the objective base scores (1–10 for each adjective) for the CURRENT ANSWER in isolation.
+- Then, compare it to all PREVIOUS ANSWERS:
+  - If the current answer is clearly a stronger, more archetypal fit for an adjective than every previous answer, you may bump that adjective's score up by +1 (without ever exceeding 10).
+  - If it is not clearly better than the best previous answer for that adjective, do NOT apply the progression bonus.
+  - Never apply more than a +1 progression bonus per adjective on top of the base score.
+
+${adjectiveLines}
+CURRENT ANSWER: ${noun}
+ANSWER LIST (oldest to newest, with indices):
+${indexedAnswers}
+
+The index of the CURRENT ANSWER in this list is ${
+    allAnswers.length - 1
+  } (0-based).
+
+If you are unsure between two scores, choose the *lower* score.
+
+You must provide ${count} separate reasonings, one for each adjective:
+${reasoningLines}
+
+${persona.scoringStyle}
+- Do NOT talk as if there is one secret \"perfect\" answer you were hoping for.
+- Do NOT say things like "not quite the perfect example" or "there are better answers out there".
+- Each reasoning should focus ONLY on its respective adjective, not ${adjectives.length === 2 ? "both" : "the others"}.
+- ${persona.priority}
+
+Respond ONLY with strict JSON in this shape (no extra text, no commentary):
+{${jsonShape}}`.trim();
+}
@@ -0,0 +1,149 @@
+import { DEFAULT_GAME_RULES, GameRules, maxFinalScore } from "@/lib/gameRules";
+
+// Every number derived from a game's guesses, in one place. Nothing here
+// keeps state: the hook, the game screen, sharing, cards and challenge links
+// all work their scores out from the same guesses with the same functions,
+// so they can't disagree.
+//
+// - a round's combined score: its scores added up, out of 10 per adjective
+// - a pillar: one adjective's points added up over the rounds, uncapped
+// - segments: a pillar's points up to the cap, in pointsPerSegment steps
+// - the final score: segments filled across all pillars
+// - overflow: points past the cap, the tie-breaker for equal final scores
+// - the grade: the final score out of the most there is, with any overflow
+
+export const MAX_ADJECTIVE_SCORE = 10;
+
+type ScoredRound = { scores?: number[]; isPass?: boolean };
+
+export type RoundScore = {
+  roundIndex: number;
+  noun: string;
+  isPass: boolean;
+  scores: number[] | null; // null until the judge has scored it
+  combined: number;
+  appealDelta: number[] | null; // points the appeal added, per adjective; null if not appealed
+};
+
+export type PillarScore = {
+  points: number; // uncapped
+  segments: number;
+  overflow: number;
+};
+
+export type Grade = {
+  finalScore: number;
+  maxFinalScore: number;
+  overflow: number;
+  label: string; // "9/10", or "10/10 +7" with overflow
+};
+
+export type GameScore = {
+  rounds: RoundScore[];
+  pillars: PillarScore[];
+  grade: Grade;
+  bestRoundIndex: number; // -1 until a real answer has scored
+};
+
+// A guess's scores added up, out of 10 per adjective
+export function combinedScore(scores: number[]): number {
+  return scores.reduce((sum, score) => sum + score, 0);
+}
+
+export function maxCombinedScore(adjectiveCount: number): number {
+  return MAX_ADJECTIVE_SCORE * adjectiveCount;
+}
+
+// What an appeal added, per adjective; appeals never take points away
+export function appealDeltaFor(before: number[] | undefined, after: number[]): number[] {
+  return after.map((score, i) => Math.max(0, score - (before?.[i] ?? 0)));
+}
+
+export function pillarTotals(guesses: ScoredRound[], pillarCount: number): number[] {
+  return guesses.reduce<number[]>(
+    (totals, g) => (g.scores && !g.isPass ? totals.map((total, i) => total + (g.scores?.[i] ?? 0)) : totals),
+    new Array<number>(pillarCount).fill(0),
+  );
+}
+
+// Cumulative points per pillar are capped, same as the pillars themselves.
+export function filledSegmentsFor(points: number, rules: GameRules = DEFAULT_GAME_RULES): number {
+  return Math.floor(Math.min(points, rules.pillarCap) / rules.pointsPerSegment);
+}
+
+export function finalScoreFor(pillars: number[], rules: GameRules = DEFAULT_GAME_RULES): number {
+  return pillars.reduce((sum, points) => sum + filledSegmentsFor(points, rules), 0);
+}
+
+// Points past the cap don't fill anything, but they aren't thrown away
+// either: they're the game's namesake. They show as a pillar bursting past
+// its top, a bonus next to the final score and the tie-breaker between equal
+// final scores.
+export function overflowPointsFor(points: number, rules: GameRules = DEFAULT_GAME_RULES): number {
+  return Math.max(0, points - rules.pillarCap);
+}
+
+export function overflowFor(pillars: number[], rules: GameRules = DEFAULT_GAME_RULES): number {
+  return pillars.reduce((sum, points) => sum + overflowPointsFor(points, rules), 0);
+}
+
+// The grade for pillars with these points. Anything with only the pillar
+// totals to go on (result cards, the history) grades them here too.
+export function gradeFor(pillars: number[], rules: GameRules = DEFAULT_GAME_RULES): Grade {
+  const finalScore = finalScoreFor(pillars, rules);
+  const max = maxFinalScore(rules, pillars.length);
+  const overflow = overflowFor(pillars, rules);
+  const label = overflow > 0 ? `${finalScore}/${max} +${overflow}` : `${finalScore}/${max}`;
+  return { finalScore, maxFinalScore: max, overflow, label };
+}
+
+// Orders two results by final score, then by overflow. Positive when `a` wins.
+export function compareFinalScores(
+  a: { finalScore: number; overflow: number },
+  b: { finalScore: number; overflow: number },
+): number {
+  return a.finalScore - b.finalScore || a.overflow - b.overflow;
+}
+
+// The round with the highest combined score; passes never count, and the
+// earliest round wins a tie
+export function bestRoundIndex(guesses: ScoredRound[]): number {
+  let best = -1;
+  let bestCombined = 0;
+  guesses.forEach((g, i) => {
+    if (!g.scores || g.isPass) return;
+    const combined = combinedScore(g.scores);
+    if (combined > bestCombined) {
+      best = i;
+      bestCombined = combined;
+    }
+  });
+  return best;
+}
+
+export function scoreGame(game: {
+  adjectives: string[];
+  guesses: Array<ScoredRound & { noun: string; appealed?: boolean; appealDelta?: number[] }>;
+  rules: GameRules;
+}): GameScore {
+  const { adjectives, guesses, rules } = game;
+  const rounds = guesses.map((g, roundIndex) => ({
+    roundIndex,
+    noun: g.noun,
+    isPass: !!g.isPass,
+    scores: g.scores ?? null,
+    combined: g.scores && !g.isPass ? combinedScore(g.scores) : 0,
+    appealDelta: g.appealed ? g.appealDelta ?? adjectives.map(() => 0) : null,
+  }));
+  const totals = pillarTotals(guesses, adjectives.length);
+  return {
+    rounds,
+    pillars: totals.map((points) => ({
+      points,
+      segments: filledSegmentsFor(points, rules),
+      overflow: overflowPointsFor(points, rules),
+    })),
+    grade: gradeFor(totals, rules),
+    bestRoundIndex: bestRoundIndex(guesses),
+  };
+}
@@ -0,0 +1,95 @@
+import type { GameState } from "@/hooks/useDailyGameState";
+import { GameRules, segmentsPerPillar } from "@/lib/gameRules";
+import {
+  combinedScore,
+  filledSegmentsFor,
+  gradeFor,
+  overflowPointsFor,
+  pillarTotals,
+} from "@/lib/scoring";
+import { encodeResultCard, resultCardFromState } from "@/lib/resultCard";
+
+// Spoiler-free result text for group chats: the pillar fill as an emoji grid
+// and each round's combined score, but never the answers themselves. A pillar
+// that went past its cap gets a chart emoji on the end of its row.
+
+// One colour per pillar, in the board's order. There's no pink square emoji;
+// purple is the closest match that renders everywhere, and blue stands in
+// for cyan.
+const PILLAR_SEGMENTS = ["🟪", "🟦", "🟩", "🟨"];
+const EMPTY_SEGMENT = "⬛";
+const OVERFLOW_MARKER = "📈";
+const APPEAL_MARKER = "⚖️";
+
+function puzzleLabel(state: GameState): string {
+  if (state.mode === "challenge") return "Challenge";
+  if (state.mode === "debug-random") return "Random game";
+  const day = state.dateKey.slice(0, 10);
+  const date = new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  return state.mode === "archive" ? `${date} (archive)` : date;
+}
+
+function pillarRow(points: number, filled: string, rules: GameRules): string {
+  const segments = filledSegmentsFor(points, rules);
+  const row = filled.repeat(segments) + EMPTY_SEGMENT.repeat(segmentsPerPillar(rules) - segments);
+  return overflowPointsFor(points, rules) > 0 ? row + OVERFLOW_MARKER : row;
+}
+
+function roundSummary(guess: GameState["guesses"][number]): string {
+  if (guess.isPass) return "PASS";
+  if (!guess.scores) return "?";
+  const combined = combinedScore(guess.scores);
+  return guess.appealed ? `${combined}${APPEAL_MARKER}` : `${combined}`;
+}
+
+// Links to the result page, which unfurls as an image card in chat apps.
+// The card only shows the best answer and its quip with `withBest`: the
+// payload is in the link, so anyone in the chat who hasn't played yet could
+// read it there. The end screen offers that as a separate, spoiler share.
+export function shareUrlFor(state: GameState, origin: string, withBest = false): string {
+  const card = resultCardFromState(state, puzzleLabel(state));
+  return `${origin}/r/${encodeResultCard(withBest ? card : { ...card, best: undefined })}`;
+}
+
+export function buildShareText(state: GameState, url: string, isFinal: boolean): string {
+  const pillars = pillarTotals(state.guesses, state.adjectives.length);
+  const { rules } = state;
+  const score = gradeFor(pillars, rules).label;
+
+  return [
+    `Off the Charts · ${puzzleLabel(state)}`,
+    pillars.map((points, i) => pillarRow(points, PILLAR_SEGMENTS[i % PILLAR_SEGMENTS.length], rules)).join(" "),
+    isFinal ? score : `${score} (provisional)`,
+    state.guesses.map(roundSummary).join(" · "),
+    url,
+  ].join("\n");
+}
+
+export type ShareOutcome = "shared" | "copied" | "cancelled" | "failed";
+
+// Prefers the native share sheet (mostly mobile), falling back to the clipboard.
+export async function shareResult(text: string): Promise<ShareOutcome> {
+  if (typeof navigator.share === "function") {
+    try {
+      await navigator.share({ text });
+      return "shared";
+    } catch (e) {
+      if (e instanceof DOMException && e.name === "AbortError") return "cancelled";
+      // Some browsers expose share() but refuse it (e.g. no user activation);
+      // the clipboard may still work.
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    return "copied";
+  } catch (e) {
+    console.error(e);
+    return "failed";
+  }
+}
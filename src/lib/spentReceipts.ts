@@ -0,0 +1,83 @@
+// Where the server remembers which score receipts have been used for an
+// appeal (see spendReceipt in src/lib/receipt.ts). It has to be shared by
+// every server instance and survive restarts, or a receipt could be appealed
+// once per instance, or again after a deploy.
+//
+// Store selection:
+// - OFF_THE_CHARTS_RECEIPT_STORE_URL (and _TOKEN) point at a Redis REST
+//   endpoint, e.g. Upstash
+// - otherwise receipts are tracked in this process's memory. Fine for local
+//   dev; configure the store in production.
+
+export type SpentReceiptStore = {
+  // Records the key until expiresAt (epoch ms). False if it was already there.
+  add(key: string, expiresAt: number): Promise<boolean>;
+  remove(key: string): Promise<void>;
+};
+
+const KEY_PREFIX = "off-the-charts:spent-receipt:";
+
+let cachedStore: SpentReceiptStore | null = null;
+
+export function getSpentReceiptStore(): SpentReceiptStore {
+  if (!cachedStore) {
+    const url = process.env.OFF_THE_CHARTS_RECEIPT_STORE_URL;
+    if (url) {
+      cachedStore = createRedisRestStore(url, process.env.OFF_THE_CHARTS_RECEIPT_STORE_TOKEN);
+    } else {
+      console.warn("OFF_THE_CHARTS_RECEIPT_STORE_URL is not set; spent receipts are only tracked in memory");
+      cachedStore = createMemoryStore();
+    }
+  }
+  return cachedStore;
+}
+
+function createMemoryStore(): SpentReceiptStore {
+  const spent = new Map<string, number>();
+  return {
+    async add(key, expiresAt) {
+      const now = Date.now();
+      spent.forEach((until, k) => {
+        if (until <= now) spent.delete(k);
+      });
+      if (spent.has(key)) return false;
+      spent.set(key, expiresAt);
+      return true;
+    },
+    async remove(key) {
+      spent.delete(key);
+    },
+  };
+}
+
+// One command per request: SET ... NX is atomic, so two instances racing to
+// spend the same receipt can't both win.
+function createRedisRestStore(url: string, token: string | undefined): SpentReceiptStore {
+  const command = async (args: Array<string | number>): Promise<unknown> => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args),
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      throw new Error(`Receipt store responded with status ${res.status}`);
+    }
+    const data = (await res.json()) as { result?: unknown; error?: string };
+    if (data.error) throw new Error(`Receipt store error: ${data.error}`);
+    return data.result;
+  };
+
+  return {
+    async add(key, expiresAt) {
+      const result = await command(["SET", KEY_PREFIX + key, "1", "NX", "PXAT", expiresAt]);
+      return result === "OK";
+    },
+    async remove(key) {
+      await command(["DEL", KEY_PREFIX + key]);
+    },
+  };
+}
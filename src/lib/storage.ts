@@ -0,0 +1,117 @@
+// Versioned localStorage. Everything is saved in an envelope,
+//
+//   { "version": 2, "data": { ... } }
+//
+// and each store lists its migrations in order: migrations[n] upgrades data
+// at version n to version n + 1, so a store's current version is simply the
+// number of migrations. Saves from before envelopes existed count as
+// version 0. Data written by a newer build (a version we don't know yet) is
+// never overwritten; this build works around it until the player is back on
+// the newer one.
+//
+// This is only about the shape of what's saved. Which puzzle a game is
+// playing is part of the game itself (its dateKey), see SEED_VERSIONS in
+// src/lib/puzzle.ts.
+
+export type Migration = (data: unknown) => unknown;
+
+// Builds a store's migrations one step at a time, each step taking the shape
+// the one before it left, so a step that doesn't fit won't type-check:
+//
+//   migrationsFrom<SavedV0>()
+//     .then((v0): SavedV1 => ...)
+//     .then((v1): SavedV2 => ...).steps
+export type MigrationChain<T> = {
+  steps: readonly Migration[];
+  then<U>(step: (data: T) => U): MigrationChain<U>;
+};
+
+function chainFrom<T>(steps: readonly Migration[]): MigrationChain<T> {
+  return {
+    steps,
+    then: <U>(step: (data: T) => U) => chainFrom<U>([...steps, (data) => step(data as T)]),
+  };
+}
+
+export function migrationsFrom<T>(): MigrationChain<T> {
+  return chainFrom<T>([]);
+}
+
+export type VersionedStore<T> = {
+  key: string;
+  migrations: readonly Migration[];
+  // Checks the shape of up-to-date data; null rejects it
+  revive: (data: unknown) => T | null;
+};
+
+export type LoadResult<T> =
+  | { status: "ok"; value: T }
+  | { status: "empty" } // nothing saved, or nothing usable
+  | { status: "future"; version: number }; // saved by a newer build, left as is
+
+type Envelope = { version: number; data: unknown };
+
+export function currentVersion(store: VersionedStore<unknown>): number {
+  return store.migrations.length;
+}
+
+function readEnvelope(raw: string): Envelope {
+  const parsed: unknown = JSON.parse(raw);
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    "data" in parsed &&
+    typeof (parsed as { version?: unknown }).version === "number"
+  ) {
+    return parsed as Envelope;
+  }
+  return { version: 0, data: parsed };
+}
+
+export function loadVersioned<T>(store: VersionedStore<T>): LoadResult<T> {
+  try {
+    const raw = window.localStorage.getItem(store.key);
+    if (raw === null) return { status: "empty" };
+
+    const envelope = readEnvelope(raw);
+    const target = currentVersion(store);
+    if (envelope.version > target) return { status: "future", version: envelope.version };
+
+    let data = envelope.data;
+    for (let version = envelope.version; version < target; version++) {
+      data = store.migrations[version](data);
+    }
+    const value = store.revive(data);
+    if (value === null) return { status: "empty" };
+
+    // Upgrade in place, so the migration only ever runs once per save
+    if (envelope.version < target) saveVersioned(store, value);
+    return { status: "ok", value };
+  } catch (e) {
+    console.warn(`Failed to load ${store.key} from localStorage`, e);
+    return { status: "empty" };
+  }
+}
+
+// Returns false if nothing was written, including when the slot holds data
+// from a newer build.
+export function saveVersioned<T>(store: VersionedStore<T>, value: T): boolean {
+  try {
+    const raw = window.localStorage.getItem(store.key);
+    if (raw !== null) {
+      const existing = readEnvelope(raw);
+      if (existing.version > currentVersion(store)) return false;
+    }
+  } catch {
+    // Unreadable data isn't worth protecting; overwrite it
+  }
+
+  try {
+    const envelope: Envelope = { version: currentVersion(store), data: value };
+    window.localStorage.setItem(store.key, JSON.stringify(envelope));
+    return true;
+  } catch (e) {
+    console.warn(`Failed to persist ${store.key}`, e);
+    return false;
+  }
+}
@@ -0,0 +1,36 @@
+// Compact JSON-in-the-URL encoding shared by result cards and challenge links.
+// Works the same in the browser and on the server.
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export function encodeUrlPayload(value: unknown): string {
+  return toBase64Url(JSON.stringify(value));
+}
+
+// Returns undefined for anything that isn't a well-formed payload; callers
+// still have to validate the shape.
+export function decodeUrlPayload(payload: string): unknown {
+  try {
+    return JSON.parse(fromBase64Url(payload));
+  } catch {
+    return undefined;
+  }
+}
+
+export function clampInt(value: unknown, min: number, max: number): number | null {
+  return typeof value === "number" && Number.isInteger(value)
+    ? Math.min(max, Math.max(min, value))
+    : null;
+}
@@ -0,0 +1,251 @@
+import type { JudgeProvider, JudgeRequest, JudgeResponseSchema } from "@/lib/judge";
+import { recordVerdictOutcome } from "@/lib/judgeMetrics";
+
+// One score and one reasoning per adjective, in the puzzle's order
+export type ScoreVerdict = {
+  scores: number[];
+  reasonings: string[];
+};
+
+export type AppealVerdict = {
+  newScores: number[];
+  reasonings: string[];
+  accepted: boolean;
+};
+
+type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type VerdictValidator<T> = (value: unknown) => Validation<T>;
+
+// How many extra attempts the judge gets after an invalid response before we
+// give up and report an error to the client.
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export class JudgeVerdictError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: number,
+  ) {
+    super(message);
+    this.name = "JudgeVerdictError";
+  }
+}
+
+// The judge answers with flat numbered fields (score1, reasoning1, score2,
+// ...), one set per adjective. Models fill those in more reliably than
+// arrays, and they can be picked out of a half-streamed response.
+export function numberedFields(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+}
+
+const COUNT_WORDS = ["ZERO", "ONE", "TWO", "THREE", "FOUR", "FIVE"];
+
+// "TWO", "THREE", ... for prompts
+export function countWord(count: number): string {
+  return COUNT_WORDS[count] ?? String(count);
+}
+
+// JSON schemas used for structured-output mode. Numeric ranges are enforced by
+// the validators below rather than the schema, since not every provider
+// supports minimum/maximum in strict mode.
+function verdictSchema(
+  name: string,
+  scorePrefix: string,
+  scoreDescription: string,
+  count: number,
+  extra: Record<string, unknown> = {},
+): JudgeResponseSchema {
+  const properties: Record<string, unknown> = {};
+  numberedFields(scorePrefix, count).forEach((field, i) => {
+    properties[field] = { type: "integer", description: `${scoreDescription} for adjective ${i + 1}` };
+  });
+  Object.assign(properties, extra);
+  numberedFields("reasoning", count).forEach((field) => {
+    properties[field] = { type: "string" };
+  });
+  return {
+    name,
+    schema: {
+      type: "object",
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false,
+    },
+  };
+}
+
+export function scoreVerdictSchema(count: number): JudgeResponseSchema {
+  return verdictSchema("score_verdict", "score", "Score 1-10", count);
+}
+
+export function appealVerdictSchema(count: number): JudgeResponseSchema {
+  return verdictSchema("appeal_verdict", "newScore", "Revised score 1-10", count, {
+    accepted: { type: "boolean" },
+  });
+}
+
+function checkScore(value: unknown, field: string, min: number): string | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return `"${field}" must be an integer`;
+  }
+  if (value < min || value > 10) {
+    return `"${field}" must be between ${min} and 10`;
+  }
+  return null;
+}
+
+function checkReasoning(value: unknown, field: string): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return `"${field}" must be a non-empty string`;
+  }
+  return null;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function firstError(checks: Array<() => string | null>): string | null {
+  for (const check of checks) {
+    const error = check();
+    if (error) return error;
+  }
+  return null;
+}
+
+export function scoreVerdictValidator(count: number): VerdictValidator<ScoreVerdict> {
+  const scoreFields = numberedFields("score", count);
+  const reasoningFields = numberedFields("reasoning", count);
+  return (value) => {
+    const obj = asObject(value);
+    if (!obj) return { ok: false, error: "response must be a JSON object" };
+
+    const error = firstError([
+      ...scoreFields.map((field) => () => checkScore(obj[field], field, 1)),
+      ...reasoningFields.map((field) => () => checkReasoning(obj[field], field)),
+    ]);
+    if (error) return { ok: false, error };
+
+    return {
+      ok: true,
+      value: {
+        scores: scoreFields.map((field) => obj[field] as number),
+        reasonings: reasoningFields.map((field) => (obj[field] as string).trim()),
+      },
+    };
+  };
+}
+
+export function appealVerdictValidator(originalScores: number[]): VerdictValidator<AppealVerdict> {
+  const scoreFields = numberedFields("newScore", originalScores.length);
+  const reasoningFields = numberedFields("reasoning", originalScores.length);
+  return (value) => {
+    const obj = asObject(value);
+    if (!obj) return { ok: false, error: "response must be a JSON object" };
+
+    const error = firstError([
+      ...scoreFields.map((field, i) => () => checkScore(obj[field], field, originalScores[i])),
+      () => (typeof obj.accepted === "boolean" ? null : `"accepted" must be a boolean`),
+      ...reasoningFields.map((field) => () => checkReasoning(obj[field], field)),
+    ]);
+    if (error) return { ok: false, error };
+
+    const newScores = scoreFields.map((field) => obj[field] as number);
+    return {
+      ok: true,
+      value: {
+        newScores,
+        reasonings: reasoningFields.map((field) => (obj[field] as string).trim()),
+        // Derived from the scores so the flag can't disagree with them
+        accepted: newScores.some((score, i) => score > originalScores[i]),
+      },
+    };
+  };
+}
+
+// Models without structured output like to wrap JSON in markdown fences.
+// Stripping them is the only leniency; the content itself must validate.
+function parseJson(raw: string): Validation<unknown> {
+  const unfenced = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return { ok: true, value: JSON.parse(unfenced) };
+  } catch {
+    return { ok: false, error: "response was not valid JSON" };
+  }
+}
+
+function buildRepairPrompt(prompt: string, raw: string, error: string): string {
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED: ${error}.
+Previous response:
+${raw || "(empty)"}
+
+Respond again with ONLY the strict JSON object described above, with every field present and valid.`;
+}
+
+// Streams the completion when the provider supports it, reporting the raw
+// text accumulated so far after every chunk.
+async function completeWithProgress(
+  judge: JudgeProvider,
+  request: JudgeRequest,
+  onPartial: (raw: string) => void,
+): Promise<string> {
+  if (!judge.stream) {
+    const raw = await judge.complete(request);
+    onPartial(raw);
+    return raw;
+  }
+  let raw = "";
+  for await (const chunk of judge.stream(request)) {
+    raw += chunk;
+    onPartial(raw);
+  }
+  return raw.trim();
+}
+
+// Asks the judge for a verdict and validates it, re-prompting with the
+// validation error up to MAX_REPAIR_ATTEMPTS times. Throws JudgeVerdictError
+// rather than inventing scores when no valid verdict is produced.
+// With onPartial, the first attempt is streamed; repairs never are, since
+// their output replaces whatever was already shown.
+export async function requestVerdict<T>(
+  judge: JudgeProvider,
+  request: JudgeRequest,
+  validate: VerdictValidator<T>,
+  onPartial?: (raw: string) => void,
+): Promise<T> {
+  let prompt = request.prompt;
+  let lastError = "no response";
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const raw =
+      attempt === 0 && onPartial
+        ? await completeWithProgress(judge, { ...request, prompt }, onPartial)
+        : await judge.complete({ ...request, prompt });
+    const parsed = parseJson(raw);
+    const result = parsed.ok ? validate(parsed.value) : parsed;
+
+    if (result.ok) {
+      recordVerdictOutcome(request.task.kind, attempt === 0 ? "valid" : "repaired");
+      return result.value;
+    }
+
+    lastError = result.error;
+    console.warn(
+      `Judge ${judge.id} returned an invalid ${request.task.kind} verdict (attempt ${attempt + 1}): ${lastError}`,
+    );
+    prompt = buildRepairPrompt(request.prompt, raw, lastError);
+  }
+
+  recordVerdictOutcome(request.task.kind, "failed");
+  throw new JudgeVerdictError(
+    `Judge could not produce a valid ${request.task.kind} verdict: ${lastError}`,
+    MAX_REPAIR_ATTEMPTS + 1,
+  );
+}